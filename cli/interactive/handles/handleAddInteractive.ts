@@ -1,5 +1,5 @@
 import { log, CSS } from "../../utils/log.ts";
-import { validateIndexer, type Preset } from "../../utils/fetchWithTimeout.ts";
+import { readIndexerCaps, validateIndexer, type Preset } from "../../utils/fetchWithTimeout.ts";
 import { addIndexer } from "../../../utils/sqlite.ts";
 
 export async function handleAddInteractive(presets: Preset[]) {
@@ -44,8 +44,9 @@ export async function handleAddInteractive(presets: Preset[]) {
     log.warn(`Testing connection to ${url}...`);
     if (await validateIndexer(url, key)) {
         try {
-            addIndexer(name, url, key);
+            const id = addIndexer(name, url, key);
             log.success(`Connected and added indexer: ${name}`);
+            await readIndexerCaps(id);
         } catch (err) {
             log.error(err instanceof Error ? err.message : String(err));
         }
@@ -3,15 +3,41 @@ import { parseArgs } from "@std/cli/parse-args";
 import {
     addIndexer,
     closeDb,
+    getAllIndexers,
+    setIndexerLimits,
     removeIndexer,
     toggleIndexer,
     updateSetting,
     getAllSettings,
+    deleteSetting,
+    addFilterRule,
+    getAllFilterRules,
+    removeFilterRule,
+    toggleFilterRule,
+    addApiKey,
+    getAllApiKeys,
+    revokeApiKey,
+    countAnimeMappings,
+    getAllNzbdavJobs,
+    getApiKeyById,
+    type FilterRuleType,
 } from "../utils/sqlite.ts";
+import { generateApiKey } from "../utils/apiKeys.ts";
+import { compileFilterRule, FILTER_RULE_TYPES } from "../utils/filterRules.ts";
+import {
+    listRankingProfiles,
+    parseRankingProfile,
+    profileSettingKey,
+} from "../utils/rankingProfiles.ts";
+import { encodeUserConfig } from "../utils/userConfig.ts";
+import { ANIME_LIST_URL, importAnimeMappings, resolveAnimeEpisode } from "../utils/animeMapping.ts";
+import { planNzbdavCleanup, readJanitorPolicy } from "../lib/nzbDav/janitorPolicy.ts";
+import { Config } from "../env.ts";
 
 import { displayList } from "./utils/displayList.ts";
 import { log, CSS } from "./utils/log.ts";
-import { validateIndexer } from "./utils/fetchWithTimeout.ts";
+import { readIndexerCaps, validateIndexer } from "./utils/fetchWithTimeout.ts";
+import { refreshIndexerCaps, type SearchCapability } from "../utils/newznabCaps.ts";
 import { runInteractive, runInitInteractive } from "./interactive/runInteractive.ts";
 
 
@@ -33,13 +59,54 @@ function printUsage() {
     remove <id>         Remove an indexer by ID
     enable <id>         Enable an indexer
     disable <id>        Disable an indexer
+    caps <id>           Re-read an indexer's search types and categories
+    limits <id>         Set an indexer's daily API/grab limits (no flags = read them from caps)
+      --api             Max API hits per day (0 = unlimited)
+      --grabs           Max NZB downloads per day (0 = unlimited)
+      --reset           UTC hour the indexer resets its counters (default 0)
+    profiles            Manage stream ranking profiles
+      list              List profiles and their install URLs
+      set <n> <json>    Create or replace a profile
+      remove <n>        Remove a profile
+    rules               Manage release filter rules
+      list              List all rules
+      add               Add a rule
+        --name, -n      Label shown in the X-Filter-Dropped header
+        --type, -t      ${FILTER_RULE_TYPES.join(" | ")}
+        --value, -v     e.g. CAM,TELESYNC | English | YIFY | 2160P:60,*:20 | regex
+      remove <id>       Remove a rule by ID
+      enable <id>       Enable a rule
+      disable <id>      Disable a rule
+    keys                Manage addon API keys
+      list              List keys, usage and install URLs
+      create            Mint a new key
+        --name, -n      Label for the key
+        --streams       Max concurrent streams (0 = unlimited)
+        --grabs         Max new grabs per day (0 = unlimited)
+      revoke <id>       Revoke a key
+    install-url         Print a signed per-user install URL
+      --id, -i          API key the install runs as (0 = master secret)
+      --max-res         Highest resolution to list, e.g. 1080P
+      --lang            Required languages, e.g. English,German
+      --per-res         Max results per resolution
+      --indexers        Only use these indexers, e.g. NZBgeek,DrunkenSlug
+    anime               Manage the Kitsu/MAL id mapping
+      status            Show how many ids are mapped
+      import            Download the anime id list into the database
+        --url, -u       Alternative list URL (same JSON format)
+      lookup <id>       Resolve an id, e.g. kitsu:12:1043
+    janitor             Dry run: list the NZBDav jobs the janitor would delete now
   `, CSS.header, "", CSS.header, "");
 }
 
+function describeSearch(capability: SearchCapability) {
+    return { Available: capability.available ? "✅" : "❌", Params: capability.params.join(",") };
+}
+
 const args = parseArgs(Deno.args, {
     boolean: ["help"],
-    string: ["name", "url", "key", "id"],
-    alias: { n: "name", u: "url", k: "key", i: "id", h: "help" },
+    string: ["name", "url", "key", "id", "type", "value", "max-res", "lang", "per-res", "indexers", "streams", "grabs", "api", "reset"],
+    alias: { n: "name", u: "url", k: "key", i: "id", h: "help", t: "type", v: "value" },
 });
 
 if (args.help) {
@@ -90,8 +157,9 @@ if (!command) {
 
                 log.warn(`Testing connection to ${args.url}...`);
                 if (await validateIndexer(args.url, args.key)) {
-                    addIndexer(args.name, args.url, args.key);
+                    const id = addIndexer(args.name, args.url, args.key);
                     log.success(`Added indexer: ${args.name}`);
+                    await readIndexerCaps(id);
                 } else {
                     log.error(`Connection Failed! Could not validate ${args.name}.`);
                     Deno.exit(1);
@@ -123,6 +191,263 @@ if (!command) {
                 break;
             }
 
+            case "caps": {
+                const id = Number(args._[1] || args.id);
+                const indexer = getAllIndexers().find((i) => i.id === id);
+                if (!indexer) {
+                    log.error("Unknown indexer. Usage: caps <id>");
+                    Deno.exit(1);
+                }
+
+                log.warn(`Reading caps from ${indexer.url}...`);
+                const { caps } = await refreshIndexerCaps(indexer);
+                console.table([
+                    { Type: "search", ...describeSearch(caps.search), Categories: "" },
+                    { Type: "movie-search", ...describeSearch(caps.movieSearch), Categories: caps.movieCategories.join(",") },
+                    { Type: "tv-search", ...describeSearch(caps.tvSearch), Categories: caps.tvCategories.join(",") },
+                ]);
+                break;
+            }
+
+            case "limits": {
+                const id = Number(args._[1] || args.id);
+                const indexer = getAllIndexers().find((i) => i.id === id);
+                if (!indexer) {
+                    log.error("Unknown indexer. Usage: limits <id> [--api <N>] [--grabs <N>] [--reset <hour>]");
+                    Deno.exit(1);
+                }
+
+                if (args.api === undefined && args.grabs === undefined && args.reset === undefined) {
+                    log.warn(`Reading limits from ${indexer.url}...`);
+                    const { limits } = await refreshIndexerCaps(indexer);
+                    if (!limits.apiLimit && !limits.grabLimit) {
+                        log.error("The indexer does not advertise its limits, set them with --api and --grabs.");
+                        Deno.exit(1);
+                    }
+                    log.success(`${indexer.name}: ${limits.apiLimit ?? "∞"} API hits, ${limits.grabLimit ?? "∞"} grabs per day`);
+                    break;
+                }
+
+                const api = Number(args.api ?? indexer.api_limit);
+                const grabs = Number(args.grabs ?? indexer.grab_limit);
+                const reset = Number(args.reset ?? indexer.limit_reset_hour);
+                if (![api, grabs].every((n) => Number.isInteger(n) && n >= 0) || !Number.isInteger(reset) || reset < 0 || reset > 23) {
+                    log.error("--api and --grabs must be whole numbers (0 = unlimited), --reset an hour from 0 to 23");
+                    Deno.exit(1);
+                }
+                setIndexerLimits(id, api, grabs, reset);
+                log.success(`${indexer.name}: ${api || "∞"} API hits, ${grabs || "∞"} grabs per day, resets at ${reset}:00 UTC`);
+                break;
+            }
+
+            case "profiles": {
+                const subCmd = args._[1] ?? "list";
+                const name = args._[2] as string;
+
+                if (subCmd === "list") {
+                    const base = Config.ADDON_BASE_URL.replace(/\/$/, "");
+                    console.table(listRankingProfiles().map((p) => ({
+                        Name: p.name,
+                        PerResolution: p.maxPerResolution,
+                        Weights: Object.entries(p.weights).filter(([, v]) => v).map(([k, v]) => `${k}:${v}`).join(" "),
+                        Install: p.name === "default"
+                            ? `${base}/${Config.ADDON_SHARED_SECRET}/manifest.json`
+                            : `${base}/${Config.ADDON_SHARED_SECRET}/profile/${p.name}/manifest.json`,
+                    })));
+                } else if (subCmd === "set") {
+                    const json = args._[3] as string;
+                    if (!name || !json) {
+                        log.error("Usage: profiles set <NAME> '<JSON>'");
+                        Deno.exit(1);
+                    }
+                    if (name.toLowerCase() === "default") {
+                        log.error("The default profile is built in and cannot be replaced.");
+                        Deno.exit(1);
+                    }
+                    // Validate before persisting so a bad profile never reaches the stream route
+                    parseRankingProfile(name, String(json));
+                    updateSetting(profileSettingKey(name), String(json));
+                    log.success(`Saved ranking profile: ${name.toLowerCase()}`);
+                } else if (subCmd === "remove") {
+                    if (!name) {
+                        log.error("Usage: profiles remove <NAME>");
+                        Deno.exit(1);
+                    }
+                    deleteSetting(profileSettingKey(name));
+                    log.success(`Removed ranking profile: ${name.toLowerCase()}`);
+                } else {
+                    log.error("Usage: profiles [list|set <name> <json>|remove <name>]");
+                }
+                break;
+            }
+
+            case "rules": {
+                const subCmd = args._[1] ?? "list";
+                const id = args._[2] || args.id;
+
+                if (subCmd === "list") {
+                    const rules = getAllFilterRules();
+                    if (rules.length === 0) log.mute("No filter rules found.");
+                    else {
+                        console.table(rules.map((r) => ({
+                            ID: r.id,
+                            Name: r.name,
+                            Type: r.type,
+                            Value: r.value,
+                            Enabled: r.enabled === 1 ? "✅" : "❌",
+                        })));
+                    }
+                } else if (subCmd === "add") {
+                    if (!args.name || !args.type || !args.value) {
+                        log.error("Missing required flags. Need --name, --type, and --value");
+                        Deno.exit(1);
+                    }
+                    const type = args.type as FilterRuleType;
+                    if (!FILTER_RULE_TYPES.includes(type)) {
+                        log.error(`Unknown rule type. Use one of: ${FILTER_RULE_TYPES.join(", ")}`);
+                        Deno.exit(1);
+                    }
+                    // Throws on malformed values (bad regex, bad size caps)
+                    compileFilterRule({ name: args.name, type, value: args.value });
+                    addFilterRule(args.name, type, args.value);
+                    log.success(`Added filter rule: ${args.name}`);
+                } else if (subCmd === "remove" || subCmd === "enable" || subCmd === "disable") {
+                    if (!id) {
+                        log.error(`Missing ID. Usage: rules ${subCmd} <id>`);
+                        Deno.exit(1);
+                    }
+                    if (subCmd === "remove") {
+                        removeFilterRule(Number(id));
+                        log.success(`Filter rule ID ${id} removed.`);
+                    } else {
+                        toggleFilterRule(Number(id), subCmd === "enable");
+                        log.success(`Filter rule ID ${id} ${subCmd}d.`);
+                    }
+                } else {
+                    log.error("Usage: rules [list|add|remove <id>|enable <id>|disable <id>]");
+                }
+                break;
+            }
+
+            case "keys": {
+                const subCmd = args._[1] ?? "list";
+                const id = args._[2] || args.id;
+                const base = Config.ADDON_BASE_URL.replace(/\/$/, "");
+
+                if (subCmd === "list") {
+                    const keys = getAllApiKeys();
+                    if (keys.length === 0) log.mute("No API keys found.");
+                    else {
+                        const fmt = (ts: number | null) => ts ? new Date(ts).toISOString().slice(0, 16).replace("T", " ") : "never";
+                        console.table(keys.map((k) => ({
+                            ID: k.id,
+                            Label: k.label,
+                            Streams: k.max_concurrent_streams || "∞",
+                            "Grabs/day": k.daily_grab_quota || "∞",
+                            Created: fmt(k.created_at),
+                            "Last used": fmt(k.last_used_at),
+                            Status: k.revoked ? "❌ revoked" : "✅",
+                            Install: k.revoked ? "" : `${base}/${k.key}/manifest.json`,
+                        })));
+                    }
+                } else if (subCmd === "create") {
+                    if (!args.name) {
+                        log.error("Missing required flag. Need --name");
+                        Deno.exit(1);
+                    }
+                    const streams = Number(args.streams ?? 0);
+                    const grabs = Number(args.grabs ?? 0);
+                    if (!Number.isInteger(streams) || streams < 0 || !Number.isInteger(grabs) || grabs < 0) {
+                        log.error("--streams and --grabs must be whole numbers (0 = unlimited)");
+                        Deno.exit(1);
+                    }
+                    const key = generateApiKey();
+                    addApiKey(key, args.name, streams, grabs);
+                    log.success(`Created API key: ${args.name}`);
+                    console.log(`${base}/${key}/manifest.json`);
+                } else if (subCmd === "revoke") {
+                    if (!id) {
+                        log.error("Missing ID. Usage: keys revoke <id>");
+                        Deno.exit(1);
+                    }
+                    revokeApiKey(Number(id));
+                    log.success(`API key ID ${id} revoked.`);
+                } else {
+                    log.error("Usage: keys [list|create|revoke <id>]");
+                }
+                break;
+            }
+
+            case "install-url": {
+                const keyId = Number(args.id);
+                if (args.id === undefined || !Number.isInteger(keyId) || keyId < 0) {
+                    log.error("Missing API key. Usage: install-url --id <key id> (0 = master secret)");
+                    Deno.exit(1);
+                }
+                const key = keyId ? getApiKeyById(keyId) : null;
+                if (keyId && (!key || key.revoked)) {
+                    log.error(`API key ID ${keyId} does not exist or is revoked.`);
+                    Deno.exit(1);
+                }
+
+                const split = (v?: string) => v?.split(",").map((s) => s.trim()).filter(Boolean);
+                const token = await encodeUserConfig({
+                    maxResolution: args["max-res"],
+                    languages: split(args.lang),
+                    maxPerResolution: args["per-res"] ? Number(args["per-res"]) : undefined,
+                    indexers: split(args.indexers),
+                }, keyId);
+                console.log(`${Config.ADDON_BASE_URL.replace(/\/$/, "")}/${token}/manifest.json`);
+                break;
+            }
+
+            case "anime": {
+                const subCmd = args._[1] ?? "status";
+
+                if (subCmd === "status") {
+                    const count = countAnimeMappings();
+                    if (count === 0) log.mute("No anime mappings. Run: manage anime import");
+                    else log.info(`${count} anime ids mapped.`);
+                } else if (subCmd === "import") {
+                    const url = args.url || ANIME_LIST_URL;
+                    log.info(`Downloading ${url} ...`);
+                    const count = await importAnimeMappings(url);
+                    log.success(`Imported ${count} anime mappings.`);
+                } else if (subCmd === "lookup") {
+                    const id = String(args._[2] ?? "");
+                    const resolved = resolveAnimeEpisode(id.split(":").length > 2 ? "series" : "movie", id);
+                    if (!resolved) log.error(`No mapping for ${id}`);
+                    else console.table([resolved]);
+                } else {
+                    log.error("Usage: anime [status|import|lookup <id>]");
+                }
+                break;
+            }
+
+            case "janitor": {
+                const jobs = getAllNzbdavJobs();
+                const gb = (bytes: number) => (bytes / 1024 ** 3).toFixed(1);
+                const total = jobs.reduce((sum, job) => sum + job.size, 0);
+                log.info(`${jobs.length} tracked NZBDav jobs, ${gb(total)} GB.${Config.NZBDAV_JANITOR ? "" : " Janitor is disabled (NZBDAV_JANITOR)."}`);
+
+                const actions = planNzbdavCleanup(jobs, readJanitorPolicy());
+                if (!actions.length) {
+                    log.mute("Nothing to delete.");
+                    break;
+                }
+                console.table(actions.map(({ job, reason }) => ({
+                    "NZO ID": job.nzo_id,
+                    Title: job.title,
+                    Status: job.status,
+                    "Size (GB)": gb(job.size),
+                    "Last Played": job.last_played_at ? new Date(job.last_played_at).toISOString().slice(0, 16) : "never",
+                    Reason: reason,
+                })));
+                const freed = actions.reduce((sum, { job }) => sum + job.size, 0);
+                log.info(`Would delete ${actions.length} jobs, freeing ${gb(freed)} GB.`);
+                break;
+            }
+
             default:
                 log.error(`Unknown command: ${command}`);
                 printUsage();
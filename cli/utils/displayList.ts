@@ -1,28 +1,33 @@
-import { getAllIndexers } from "../../utils/sqlite.ts";
+import { getAllIndexerHealth, getAllIndexers } from "../../utils/sqlite.ts";
+import { formatIndexerHealth } from "../../utils/indexerHealth.ts";
+import { formatIndexerUsage } from "../../utils/indexerLimits.ts";
 import { log } from "./log.ts";
 
-interface Indexer {
-    id: number;
-    name: string;
-    url: string;
-    api_key: string;
-    enabled: number;
-}
-
 export function displayList(): boolean {
-    const list = getAllIndexers() as Indexer[];
+    const list = getAllIndexers();
     if (list.length === 0) {
         log.mute("No indexers found.");
         return false;
     }
 
-    const tableData = list.map((i) => ({
-        ID: i.id,
-        Name: i.name,
-        URL: i.url,
-        Enabled: i.enabled === 1 ? "✅" : "❌",
-        Key: `${i.api_key.substring(0, 4)}...`,
-    }));
+    const health = new Map(getAllIndexerHealth().map((h) => [h.indexer_id, h]));
+
+    const tableData = list.map((i) => {
+        const h = health.get(i.id);
+        return {
+            ID: i.id,
+            Name: i.name,
+            URL: i.url,
+            Enabled: i.enabled === 1 ? "✅" : "❌",
+            Key: `${i.api_key.substring(0, 4)}...`,
+            Today: formatIndexerUsage(i),
+            Health: formatIndexerHealth(h),
+            "p50/p95": h?.p50_ms != null ? `${h.p50_ms}/${h.p95_ms}ms` : "-",
+            Errors: h ? `${Math.round(h.error_rate * 100)}%` : "-",
+            "API limits": h?.api_limit_hits ?? 0,
+            "Last error": h?.last_failure_reason ?? "-",
+        };
+    });
 
     console.table(tableData);
     return true;
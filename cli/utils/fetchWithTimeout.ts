@@ -1,3 +1,7 @@
+import { getAllIndexers } from "../../utils/sqlite.ts";
+import { refreshIndexerCaps } from "../../utils/newznabCaps.ts";
+import { log } from "./log.ts";
+
 export interface Preset {
     name: string;
     url: string;
@@ -59,4 +63,29 @@ export async function validateIndexer(url: string, key: string): Promise<boolean
     } catch {
         return false;
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Reads and stores the caps of a freshly added indexer: search types, categories and limits.
+ */
+export async function readIndexerCaps(id: number): Promise<void> {
+    const indexer = getAllIndexers().find((i) => i.id === id);
+    if (!indexer) return;
+
+    try {
+        const { caps, limits } = await refreshIndexerCaps(indexer);
+        const types = [
+            caps.movieSearch.available && `movie (${caps.movieSearch.params.join(",")})`,
+            caps.tvSearch.available && `tv (${caps.tvSearch.params.join(",")})`,
+        ].filter(Boolean);
+        log.info(`Search types: ${types.join(", ") || "text only"}`);
+
+        if (limits.apiLimit || limits.grabLimit) {
+            log.info(`Limits from caps: ${limits.apiLimit ?? "∞"} API hits, ${limits.grabLimit ?? "∞"} grabs per day`);
+            return;
+        }
+    } catch (err) {
+        log.warn(`Could not read caps, using default categories: ${err instanceof Error ? err.message : err}`);
+    }
+    log.mute(`No limits advertised. Set them with: manage limits ${id} --api <N> --grabs <N>`);
+}
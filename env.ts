@@ -1,5 +1,12 @@
 import { getOrSetSetting } from "./utils/sqlite.ts";
 
+export type ReleasePolicy = "drop" | "flag" | "allow";
+
+function readReleasePolicy(value: string, fallback: ReleasePolicy): ReleasePolicy {
+    const policy = value.trim().toLowerCase();
+    return policy === "drop" || policy === "flag" || policy === "allow" ? policy : fallback;
+}
+
 /**
  * Configuration Manager
  * Access properties here to get the latest value from Env or DB.
@@ -33,6 +40,10 @@ export const Config = {
         return getOrSetSetting("NZBHYDRA_URL", "", "URL for NZBHydra");
     },
 
+    get SEARCH_PROVIDERS() {
+        return getOrSetSetting("SEARCH_PROVIDERS", "auto", "Search providers to query together: auto or a list of hydra,prowlarr,direct");
+    },
+
     get REDIS_URL() {
         const val = getOrSetSetting("REDIS_URL", "redis://redis:6379", "Connection string for Redis");
         return String(val);
@@ -98,6 +109,111 @@ export const Config = {
         return getOrSetSetting("NZB_CHECK_API_KEY", "", "API key for the NZBCheck Service");
     },
 
+    get RANKING_PROFILE() {
+        return getOrSetSetting("RANKING_PROFILE", "default", "Ranking profile used when the install URL does not name one");
+    },
+
+    get CATALOG_ENABLED() {
+        return getOrSetSetting("CATALOG_ENABLED", "false", "Show Recently on Usenet catalogs built from indexer RSS") === "true";
+    },
+
+    get CATALOG_REFRESH_MINUTES() {
+        const minutes = Number(getOrSetSetting("CATALOG_REFRESH_MINUTES", "60", "Minutes between catalog indexer pulls"));
+        return Number.isFinite(minutes) && minutes >= 5 ? minutes : 60;
+    },
+
+    get PASSWORDED_RELEASES(): ReleasePolicy {
+        return readReleasePolicy(getOrSetSetting("PASSWORDED_RELEASES", "drop", "Passworded releases: drop, flag or allow"), "drop");
+    },
+
+    get OBFUSCATED_RELEASES(): ReleasePolicy {
+        return readReleasePolicy(getOrSetSetting("OBFUSCATED_RELEASES", "flag", "Releases with obfuscated names: drop, flag or allow"), "flag");
+    },
+
+    get NNTP_CHECK() {
+        return getOrSetSetting("NNTP_CHECK", "false", "Check the top NZBs for missing articles with STAT on the configured NNTP servers") === "true";
+    },
+
+    get NNTP_CHECK_COUNT() {
+        const count = Number(getOrSetSetting("NNTP_CHECK_COUNT", "5", "Top results without an NZBCheck verdict that NNTP checks cover, independent of NZB_PEEK_COUNT"));
+        return Number.isInteger(count) && count > 0 ? Math.min(count, 10) : 5;
+    },
+
+    get NNTP_CHECK_SAMPLES() {
+        const samples = Number(getOrSetSetting("NNTP_CHECK_SAMPLES", "20", "Message ids sampled per NZB by NNTP checks"));
+        return Number.isInteger(samples) && samples > 0 ? Math.min(samples, 200) : 20;
+    },
+
+    get BUILTIN_STREAMER() {
+        return getOrSetSetting("BUILTIN_STREAMER", "false", "Stream single-file releases straight from the NNTP servers, falls back to NZBDav for anything else") === "true";
+    },
+
+    get PREFETCH_EPISODES() {
+        const depth = Number(getOrSetSetting("PREFETCH_EPISODES", "0", "Next episodes queued on NZBDav in the background when an episode starts playing, 0 disables"));
+        return Number.isInteger(depth) && depth > 0 ? Math.min(depth, 5) : 0;
+    },
+
+    get PREFETCH_MAX_CONCURRENT() {
+        const max = Number(getOrSetSetting("PREFETCH_MAX_CONCURRENT", "2", "Background episode prefetches running at the same time"));
+        return Number.isInteger(max) && max > 0 ? Math.min(max, 10) : 2;
+    },
+
+    get PRECACHE_TOP() {
+        const count = Number(getOrSetSetting("PRECACHE_TOP", "0", "Top results of a stream list queued on NZBDav in the background so the first click plays instantly, 0 disables"));
+        return Number.isInteger(count) && count > 0 ? Math.min(count, 5) : 0;
+    },
+
+    get PRECACHE_MAX_CONCURRENT() {
+        const max = Number(getOrSetSetting("PRECACHE_MAX_CONCURRENT", "2", "Background pre-cache jobs running at the same time"));
+        return Number.isInteger(max) && max > 0 ? Math.min(max, 10) : 2;
+    },
+
+    get PRECACHE_COOLDOWN_MINUTES() {
+        const minutes = Number(getOrSetSetting("PRECACHE_COOLDOWN_MINUTES", "60", "Minutes before the same title is pre-cached again"));
+        return Number.isFinite(minutes) && minutes >= 0 ? minutes : 60;
+    },
+
+    get PRECACHE_COMPLETE_ONLY() {
+        return getOrSetSetting("PRECACHE_COMPLETE_ONLY", "true", "Only pre-cache releases NZBCheck (or the local NNTP check) reports as complete") === "true";
+    },
+
+    get STREAM_FALLBACK() {
+        return getOrSetSetting("STREAM_FALLBACK", "false", "When a release fails on NZBDav, play the next one of the same resolution instead") === "true";
+    },
+
+    get STREAM_FALLBACK_BUDGET_SECONDS() {
+        const seconds = Number(getOrSetSetting("STREAM_FALLBACK_BUDGET_SECONDS", "60", "Seconds spent trying alternate releases before giving up"));
+        return Number.isFinite(seconds) && seconds > 0 ? Math.min(seconds, 300) : 60;
+    },
+
+    get NZBDAV_JANITOR() {
+        return getOrSetSetting("NZBDAV_JANITOR", "false", "Periodically delete old and failed NZBDav jobs this server queued") === "true";
+    },
+
+    get NZBDAV_JANITOR_IDLE_DAYS() {
+        const days = Number(getOrSetSetting("NZBDAV_JANITOR_IDLE_DAYS", "14", "Days without playback before a job is deleted"));
+        return Number.isFinite(days) && days > 0 ? days : 14;
+    },
+
+    get NZBDAV_JANITOR_FAILED_HOURS() {
+        const hours = Number(getOrSetSetting("NZBDAV_JANITOR_FAILED_HOURS", "24", "Hours a failed job is kept before it is deleted"));
+        return Number.isFinite(hours) && hours >= 0 ? hours : 24;
+    },
+
+    get NZBDAV_JANITOR_MAX_GB() {
+        const gb = Number(getOrSetSetting("NZBDAV_JANITOR_MAX_GB", "0", "Total size of kept jobs, least recently played go first when over it. 0 disables"));
+        return Number.isFinite(gb) && gb > 0 ? gb : 0;
+    },
+
+    get WATCH_HISTORY() {
+        return getOrSetSetting("WATCH_HISTORY", "true", "Record plays per API key and pin watched releases to the top of stream lists") === "true";
+    },
+
+    get NZB_PEEK_COUNT() {
+        const count = Number(getOrSetSetting("NZB_PEEK_COUNT", "0", "Top results whose NZB is fetched and inspected (files, real size, passwords) before offering them, 0 disables"));
+        return Number.isInteger(count) && count > 0 ? Math.min(count, 10) : 0;
+    },
+
     NZBDAV_POLL_INTERVAL_MS: 2000,
     NZBDAV_POLL_TIMEOUT_MS: 80000,
     NZBDAV_CACHE_TTL_MS: 3600000,
@@ -129,6 +245,13 @@ export const Config = {
         [".mpg", "video/mpeg"],
         [".mpeg", "video/mpeg"],
     ]),
+
+    SUBTITLE_MIME_MAP: new Map([
+        [".srt", "application/x-subrip"],
+        [".vtt", "text/vtt"],
+        [".ass", "text/x-ssa"],
+        [".ssa", "text/x-ssa"],
+    ]),
 };
 
 export function validateConfig(): string[] {
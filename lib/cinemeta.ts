@@ -30,16 +30,61 @@ export async function getCinemetaData(
     const url = `${Config.CINEMETA_URL}/${type}/${imdbId}.json`;
 
     try {
-        const data = await fetcher(url);
+        const data = await fetcher<any>(url);
         return {
             name: data.meta.name,
             year: data.meta.year,
             imdbId: data.meta.imdb_id || data.meta.id,
             tvdbId: data.meta.ids?.tvdb || data.meta.tvdb_id || data.meta.externals?.tvdb,
             tmdbId: data.meta.ids?.tmdb || data.meta.tmdb_id || data.meta.externals?.tmdb,
+            poster: data.meta.poster,
+            genres: data.meta.genres || data.meta.genre,
         }
     } catch (err) {
         console.error(`[CINEMETA] Error fetching ${type} ${imdbId || ""}:`, err);
         throw err;
     }
-}
\ No newline at end of file
+}
+/**
+ * Search Cinemeta by title and return the best IMDb id.
+ * When a year is given, only a result released that year is accepted.
+ */
+export async function searchCinemeta(
+    type: "movie" | "series",
+    query: string,
+    year?: string | number,
+): Promise<string | null> {
+    const base = Config.CINEMETA_URL.replace(/\/meta$/, "");
+    const url = `${base}/catalog/${type}/top/search=${encodeURIComponent(query)}.json`;
+
+    try {
+        const data = await fetcher(url) as any;
+        const metas = (data?.metas ?? []).filter((m: any) => typeof m.id === "string" && m.id.startsWith("tt"));
+        if (metas.length === 0) return null;
+
+        if (!year) return metas[0].id;
+
+        const wanted = String(year);
+        const match = metas.find((m: any) => String(m.releaseInfo ?? m.year ?? "").startsWith(wanted));
+        return match?.id ?? null;
+    } catch (err) {
+        console.error(`[CINEMETA] Search failed for ${type} "${query}":`, err);
+        return null;
+    }
+}
+
+/**
+ * Fetch the full Stremio meta object from Cinemeta, including `videos` for series.
+ */
+export async function getCinemetaMeta(type: "movie" | "series", imdbId: string): Promise<any> {
+    const url = `${Config.CINEMETA_URL}/${type}/${imdbId}.json`;
+
+    try {
+        const data = await fetcher<any>(url);
+        if (!data?.meta) throw new Error("Empty meta response");
+        return data.meta;
+    } catch (err) {
+        console.error(`[CINEMETA] Error fetching meta ${type} ${imdbId}:`, err);
+        throw err;
+    }
+}
@@ -0,0 +1,389 @@
+// --- Types ---
+
+export interface NntpServerConfig {
+    id: number;
+    host: string;
+    port: number;
+    ssl: number | boolean;
+    username?: string;
+    password?: string;
+    connection_count: number;
+}
+
+export interface NntpResponse {
+    code: number;
+    message: string;
+}
+
+export interface NntpGroup {
+    count: number;
+    low: number;
+    high: number;
+}
+
+export class NntpError extends Error {
+    constructor(message: string, public readonly code?: number) {
+        super(message);
+        this.name = "NntpError";
+    }
+}
+
+// --- Constants ---
+
+const COMMAND_TIMEOUT_MS = 10000;
+const BODY_TIMEOUT_MS = 30000;
+const IDLE_CLOSE_MS = 30000;
+const MAX_LINE_BYTES = 16 * 1024;
+const MAX_MULTILINE_LINES = 500; // headers only, see body() for articles
+const MAX_BODY_BYTES = 16 * 1024 * 1024;
+const READ_CHUNK_BYTES = 64 * 1024;
+
+const CR = 13;
+const LF = 10;
+const DOT = 46;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// --- Connection ---
+
+/**
+ * A single NNTP session. Responses are buffered as bytes so article bodies (yEnc, binary)
+ * come through untouched, status and header lines are decoded as text.
+ */
+export class NntpConnection {
+    private buf = new Uint8Array(READ_CHUNK_BYTES * 2);
+    private start = 0;
+    private end = 0;
+    closed = false;
+
+    private constructor(private readonly conn: Deno.Conn, private readonly timeoutMs: number) { }
+
+    static async open(server: NntpServerConfig, timeoutMs = COMMAND_TIMEOUT_MS): Promise<NntpConnection> {
+        const options = { hostname: server.host, port: server.port };
+        const conn = server.ssl ? await Deno.connectTls(options) : await Deno.connect(options);
+        const connection = new NntpConnection(conn, timeoutMs);
+
+        try {
+            const greeting = await connection.withTimeout(connection.readResponse(), "greeting");
+            if (greeting.code !== 200 && greeting.code !== 201) {
+                throw new NntpError(`Unexpected greeting: ${greeting.code} ${greeting.message}`, greeting.code);
+            }
+            if (server.username) await connection.authenticate(server.username, server.password ?? "");
+            return connection;
+        } catch (err) {
+            connection.close();
+            throw err;
+        }
+    }
+
+    /**
+     * Reads more bytes from the socket, compacting or growing the buffer first.
+     */
+    private async fill(): Promise<void> {
+        if (this.start > 0 && this.start === this.end) {
+            this.start = this.end = 0;
+        }
+        if (this.buf.length - this.end < READ_CHUNK_BYTES) {
+            const pending = this.end - this.start;
+            if (pending + READ_CHUNK_BYTES <= this.buf.length) {
+                this.buf.copyWithin(0, this.start, this.end);
+            } else {
+                const next = new Uint8Array((pending + READ_CHUNK_BYTES) * 2);
+                next.set(this.buf.subarray(this.start, this.end));
+                this.buf = next;
+            }
+            this.start = 0;
+            this.end = pending;
+        }
+
+        const read = await this.conn.read(this.buf.subarray(this.end));
+        if (read === null) throw new NntpError("Connection closed by server");
+        this.end += read;
+    }
+
+    private async readLine(): Promise<string> {
+        let from = this.start;
+        while (true) {
+            for (let i = from; i < this.end - 1; i++) {
+                if (this.buf[i] === CR && this.buf[i + 1] === LF) {
+                    const line = decoder.decode(this.buf.subarray(this.start, i));
+                    this.start = i + 2;
+                    return line;
+                }
+            }
+            if (this.end - this.start > MAX_LINE_BYTES) throw new NntpError("Response line too long");
+
+            from = Math.max(this.start, this.end - 1);
+            const offset = from - this.start;
+            await this.fill();
+            from = this.start + offset;
+        }
+    }
+
+    private async readResponse(): Promise<NntpResponse> {
+        const line = await this.readLine();
+        const code = parseInt(line.slice(0, 3), 10);
+        if (!Number.isFinite(code)) throw new NntpError(`Malformed response: ${line}`);
+        return { code, message: line.slice(4) };
+    }
+
+    private async readMultiline(): Promise<string[]> {
+        const lines: string[] = [];
+        while (true) {
+            const line = await this.readLine();
+            if (line === ".") return lines;
+            if (lines.length >= MAX_MULTILINE_LINES) throw new NntpError("Multi-line response too long");
+            lines.push(line.startsWith("..") ? line.slice(1) : line);
+        }
+    }
+
+    /**
+     * Raw bytes of a multi-line block up to the terminating "." line, dot-stuffing removed.
+     * Line breaks are kept, the yEnc decoder skips them.
+     */
+    private async readMultilineBytes(): Promise<Uint8Array> {
+        let from = this.start;
+        while (true) {
+            // The block ends with CRLF "." CRLF, or is just "." CRLF when empty
+            const atStart = this.end - this.start >= 3 && this.buf[this.start] === DOT &&
+                this.buf[this.start + 1] === CR && this.buf[this.start + 2] === LF;
+            if (atStart) {
+                this.start += 3;
+                return new Uint8Array(0);
+            }
+
+            for (let i = Math.max(from, this.start); i <= this.end - 5; i++) {
+                if (this.buf[i] === CR && this.buf[i + 1] === LF && this.buf[i + 2] === DOT &&
+                    this.buf[i + 3] === CR && this.buf[i + 4] === LF) {
+                    const body = unstuff(this.buf.subarray(this.start, i + 2));
+                    this.start = i + 5;
+                    return body;
+                }
+            }
+            if (this.end - this.start > MAX_BODY_BYTES) throw new NntpError("Article body too large");
+
+            const offset = Math.max(0, this.end - this.start - 4);
+            await this.fill();
+            from = this.start + offset;
+        }
+    }
+
+    /**
+     * Races an operation against a timeout. On timeout the connection is closed,
+     * the session state is unknown after it.
+     */
+    private async withTimeout<T>(operation: Promise<T>, label: string, ms = this.timeoutMs): Promise<T> {
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        const timeout = new Promise<never>((_, reject) => {
+            timer = setTimeout(() => {
+                this.close();
+                reject(new NntpError(`Timed out: ${label}`));
+            }, ms);
+        });
+
+        try {
+            return await Promise.race([operation, timeout]);
+        } catch (err) {
+            this.close();
+            throw err;
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+
+    /**
+     * Sends one command and reads its status line.
+     */
+    async command(line: string): Promise<NntpResponse> {
+        if (this.closed) throw new NntpError("Connection is closed");
+
+        const label = line.split(" ")[0];
+        await this.withTimeout(this.conn.write(encoder.encode(`${line}\r\n`)), label);
+        return await this.withTimeout(this.readResponse(), label);
+    }
+
+    private async authenticate(username: string, password: string): Promise<void> {
+        let res = await this.command(`AUTHINFO USER ${username}`);
+        if (res.code === 381) res = await this.command(`AUTHINFO PASS ${password}`);
+        if (res.code !== 281) throw new NntpError(`Authentication failed: ${res.code} ${res.message}`, res.code);
+    }
+
+    /**
+     * Whether the server still has the article. Ids from NZBs come without angle brackets.
+     */
+    async stat(messageId: string): Promise<boolean> {
+        const res = await this.command(`STAT ${toMessageId(messageId)}`);
+        if (res.code === 223) return true;
+        if (res.code === 430 || res.code === 423) return false;
+        throw new NntpError(`STAT failed: ${res.code} ${res.message}`, res.code);
+    }
+
+    async group(name: string): Promise<NntpGroup> {
+        const res = await this.command(`GROUP ${name}`);
+        if (res.code !== 211) throw new NntpError(`GROUP failed: ${res.code} ${res.message}`, res.code);
+
+        const [count, low, high] = res.message.split(" ").map((n) => parseInt(n, 10));
+        return { count, low, high };
+    }
+
+    /**
+     * Headers of an article in the selected group, keys lowercased. Null when the server no longer has it.
+     */
+    async head(articleNumber: number): Promise<Record<string, string> | null> {
+        const res = await this.command(`HEAD ${articleNumber}`);
+        if (res.code === 423 || res.code === 430) return null;
+        if (res.code !== 221) throw new NntpError(`HEAD failed: ${res.code} ${res.message}`, res.code);
+
+        const headers: Record<string, string> = {};
+        for (const line of await this.withTimeout(this.readMultiline(), "HEAD")) {
+            const colon = line.indexOf(":");
+            if (colon > 0) headers[line.slice(0, colon).trim().toLowerCase()] = line.slice(colon + 1).trim();
+        }
+        return headers;
+    }
+
+    /**
+     * Raw body of an article (still yEnc encoded). Null when the server does not have it.
+     */
+    async body(messageId: string): Promise<Uint8Array | null> {
+        const res = await this.command(`BODY ${toMessageId(messageId)}`);
+        if (res.code === 430 || res.code === 423) return null;
+        if (res.code !== 222) throw new NntpError(`BODY failed: ${res.code} ${res.message}`, res.code);
+
+        return await this.withTimeout(this.readMultilineBytes(), "BODY", BODY_TIMEOUT_MS);
+    }
+
+    close(): void {
+        if (this.closed) return;
+        this.closed = true;
+        try {
+            this.conn.close();
+        } catch {
+            // already closed by the peer
+        }
+    }
+
+    async quit(): Promise<void> {
+        if (this.closed) return;
+        await this.command("QUIT").catch(() => { });
+        this.close();
+    }
+}
+
+function toMessageId(id: string): string {
+    return id.startsWith("<") ? id : `<${id}>`;
+}
+
+/**
+ * Drops the extra dot NNTP puts in front of lines that start with one.
+ */
+function unstuff(block: Uint8Array): Uint8Array {
+    const out = new Uint8Array(block.length);
+    let n = 0;
+    let lineStart = true;
+
+    for (let i = 0; i < block.length; i++) {
+        const b = block[i];
+        if (lineStart && b === DOT && block[i + 1] === DOT) {
+            lineStart = false;
+            continue;
+        }
+        out[n++] = b;
+        lineStart = b === LF;
+    }
+    return out.subarray(0, n);
+}
+
+// --- Pool ---
+
+/**
+ * Keeps up to `size` open sessions per server. Idle sessions are closed after a while so
+ * provider connection limits are not held between uses. Callers bound their own concurrency,
+ * the pool only makes sure the server's limit is never exceeded.
+ */
+export class NntpPool {
+    private idle: NntpConnection[] = [];
+    private open = 0;
+    private waiters: ((conn: NntpConnection | null) => void)[] = [];
+    private idleTimer: ReturnType<typeof setTimeout> | undefined;
+
+    constructor(private readonly server: NntpServerConfig, private readonly size: number) { }
+
+    private async acquire(): Promise<NntpConnection> {
+        const conn = this.idle.pop();
+        if (conn) return conn;
+
+        if (this.open < this.size) {
+            this.open++;
+            try {
+                return await NntpConnection.open(this.server);
+            } catch (err) {
+                this.open--;
+                this.wakeWaiter(null);
+                throw err;
+            }
+        }
+
+        const handed = await new Promise<NntpConnection | null>((resolve) => this.waiters.push(resolve));
+        return handed ?? await this.acquire();
+    }
+
+    private wakeWaiter(conn: NntpConnection | null): boolean {
+        const waiter = this.waiters.shift();
+        if (!waiter) return false;
+        waiter(conn);
+        return true;
+    }
+
+    private release(conn: NntpConnection): void {
+        if (conn.closed) {
+            this.open--;
+            this.wakeWaiter(null);
+            return;
+        }
+        if (this.wakeWaiter(conn)) return;
+
+        this.idle.push(conn);
+        clearTimeout(this.idleTimer);
+        this.idleTimer = setTimeout(() => this.drain(), IDLE_CLOSE_MS);
+    }
+
+    async use<T>(fn: (conn: NntpConnection) => Promise<T>): Promise<T> {
+        const conn = await this.acquire();
+        try {
+            return await fn(conn);
+        } finally {
+            this.release(conn);
+        }
+    }
+
+    async drain(): Promise<void> {
+        clearTimeout(this.idleTimer);
+        const idle = this.idle;
+        this.idle = [];
+        this.open -= idle.length;
+        await Promise.all(idle.map((conn) => conn.quit()));
+    }
+}
+
+const pools = new Map<string, NntpPool>();
+
+/**
+ * Shared pool per server, sized by its connection limit. Keyed by the connection details
+ * so an edited server gets a new pool.
+ */
+export function getNntpPool(server: NntpServerConfig): NntpPool {
+    const key = `${server.id}:${server.host}:${server.port}:${server.ssl ? 1 : 0}:${server.username ?? ""}:${server.connection_count}`;
+    let pool = pools.get(key);
+    if (!pool) {
+        pool = new NntpPool(server, Math.max(1, server.connection_count || 1));
+        pools.set(key, pool);
+    }
+    return pool;
+}
+
+export async function closeNntpPools(): Promise<void> {
+    await Promise.all([...pools.values()].map((pool) => pool.drain()));
+    pools.clear();
+}
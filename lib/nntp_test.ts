@@ -0,0 +1,192 @@
+import { assert, assertEquals, assertRejects } from "@std/assert";
+import { NntpConnection, NntpError, NntpPool, type NntpServerConfig } from "./nntp.ts";
+import { crc32, decodeYenc } from "./yenc.ts";
+
+// --- Fake server ---
+
+interface FakeServer {
+    server: NntpServerConfig;
+    commands: string[];
+    peakConnections: number;
+    close(): Promise<void>;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * A line-based NNTP server on a free local port. `reply` answers each command line,
+ * null keeps quiet. A null greeting never greets, to exercise timeouts.
+ */
+function startFakeServer(greeting: string | null, reply: (line: string) => string | null): FakeServer {
+    const listener = Deno.listen({ hostname: "127.0.0.1", port: 0 });
+    const sessions: Promise<void>[] = [];
+    let active = 0;
+
+    const fake: FakeServer = {
+        server: { id: 1, host: "127.0.0.1", port: listener.addr.port, ssl: false, connection_count: 2 },
+        commands: [],
+        peakConnections: 0,
+        async close() {
+            listener.close();
+            await accepting;
+            await Promise.all(sessions);
+        },
+    };
+
+    const serve = async (conn: Deno.Conn) => {
+        active++;
+        fake.peakConnections = Math.max(fake.peakConnections, active);
+        const send = (line: string) => conn.write(encoder.encode(`${line}\r\n`));
+        const chunk = new Uint8Array(1024);
+        let pending = "";
+
+        try {
+            if (greeting) await send(greeting);
+            while (true) {
+                const read = await conn.read(chunk);
+                if (read === null) break;
+                pending += decoder.decode(chunk.subarray(0, read));
+
+                let eol: number;
+                while ((eol = pending.indexOf("\r\n")) >= 0) {
+                    const line = pending.slice(0, eol);
+                    pending = pending.slice(eol + 2);
+                    fake.commands.push(line);
+
+                    const answer = line === "QUIT" ? "205 bye" : reply(line);
+                    if (answer) await send(answer);
+                    if (line === "QUIT") return;
+                }
+            }
+        } catch {
+            // client went away mid-write
+        } finally {
+            active--;
+            try {
+                conn.close();
+            } catch {
+                // already closed
+            }
+        }
+    };
+
+    const accepting = (async () => {
+        try {
+            for await (const conn of listener) sessions.push(serve(conn));
+        } catch {
+            // listener closed
+        }
+    })();
+
+    return fake;
+}
+
+const ARTICLES = new Set(["<present@test>"]);
+
+function standardReply(line: string): string | null {
+    if (line === "AUTHINFO USER alice") return "381 password required";
+    if (line.startsWith("AUTHINFO PASS")) return line === "AUTHINFO PASS secret" ? "281 ok" : "481 rejected";
+    if (line.startsWith("STAT ")) return ARTICLES.has(line.slice(5)) ? `223 0 ${line.slice(5)}` : "430 no such article";
+    return "500 unknown command";
+}
+
+// --- Connection ---
+
+Deno.test("NntpConnection logs in with AUTHINFO after the greeting", async () => {
+    const fake = startFakeServer("200 fake ready", standardReply);
+    try {
+        const conn = await NntpConnection.open({ ...fake.server, username: "alice", password: "secret" });
+        await conn.quit();
+        assertEquals(fake.commands, ["AUTHINFO USER alice", "AUTHINFO PASS secret", "QUIT"]);
+    } finally {
+        await fake.close();
+    }
+});
+
+Deno.test("NntpConnection rejects a bad password and an error greeting", async () => {
+    const fake = startFakeServer("200 fake ready", standardReply);
+    const refusing = startFakeServer("502 access denied", standardReply);
+    try {
+        const badLogin = await assertRejects(
+            () => NntpConnection.open({ ...fake.server, username: "alice", password: "wrong" }),
+            NntpError,
+            "Authentication failed",
+        );
+        assertEquals(badLogin.code, 481);
+
+        const denied = await assertRejects(() => NntpConnection.open(refusing.server), NntpError, "Unexpected greeting");
+        assertEquals(denied.code, 502);
+    } finally {
+        await fake.close();
+        await refusing.close();
+    }
+});
+
+Deno.test("NntpConnection.stat maps 223 and 430, adding angle brackets", async () => {
+    const fake = startFakeServer("201 fake ready, no posting", standardReply);
+    try {
+        const conn = await NntpConnection.open(fake.server);
+        assertEquals(await conn.stat("present@test"), true);
+        assertEquals(await conn.stat("<missing@test>"), false);
+        await conn.quit();
+        assertEquals(fake.commands.slice(0, 2), ["STAT <present@test>", "STAT <missing@test>"]);
+    } finally {
+        await fake.close();
+    }
+});
+
+Deno.test("NntpConnection times out on a silent server and closes", async () => {
+    const fake = startFakeServer(null, standardReply);
+    try {
+        await assertRejects(() => NntpConnection.open(fake.server, 100), NntpError, "Timed out: greeting");
+    } finally {
+        await fake.close();
+    }
+});
+
+Deno.test("NntpConnection.body removes dot-stuffing before yEnc decoding", async () => {
+    // Bytes 4, 20, 4 | 4 encode to the lines ".>." and ".", which the server sends dot-stuffed
+    const data = new Uint8Array([4, 20, 4, 4]);
+    const yenc = `=ybegin line=128 size=4 name=dots.bin\r\n.>.\r\n.\r\n=yend size=4 crc32=${crc32(data).toString(16)}\r\n`;
+    const stuffed = yenc.replace(/^\./gm, "..");
+
+    const fake = startFakeServer("200 fake ready", (line) => {
+        if (line === "BODY <dots@test>") return `222 0 <dots@test>\r\n${stuffed}.`;
+        return line.startsWith("BODY ") ? "430 no such article" : standardReply(line);
+    });
+    try {
+        const conn = await NntpConnection.open(fake.server);
+        const body = await conn.body("dots@test");
+        assertEquals(decoder.decode(body!), yenc);
+        assertEquals(decodeYenc(body!).data, data);
+
+        assertEquals(await conn.body("missing@test"), null);
+        await conn.quit();
+    } finally {
+        await fake.close();
+    }
+});
+
+// --- Pool ---
+
+Deno.test("NntpPool never opens more connections than its size", async () => {
+    const fake = startFakeServer("200 fake ready", standardReply);
+    const pool = new NntpPool(fake.server, 2);
+    try {
+        const results = await Promise.all(Array.from({ length: 6 }, () =>
+            pool.use(async (conn) => {
+                const found = await conn.stat("present@test");
+                await new Promise((resolve) => setTimeout(resolve, 20));
+                return found;
+            })
+        ));
+
+        assert(results.every(Boolean));
+        assertEquals(fake.peakConnections, 2);
+        assertEquals(fake.commands.filter((c) => c.startsWith("STAT")).length, 6);
+    } finally {
+        await pool.drain();
+        await fake.close();
+    }
+});
@@ -0,0 +1,73 @@
+import { Config } from "../../env.ts";
+import { redis } from "../../utils/redis.ts";
+import { getAllNzbdavJobs, getNzbdavJobStreams, removeNzbdavJob, type NzbdavJob } from "../../utils/sqlite.ts";
+import { fetchNzbdav, forgetNzbdavStream } from "./nzbDav.ts";
+import { planNzbdavCleanup, readJanitorPolicy } from "./janitorPolicy.ts";
+
+// --- Constants ---
+
+const RUN_INTERVAL_MS = 60 * 60_000;
+const FIRST_RUN_DELAY_MS = 60_000;
+
+// --- Cleanup ---
+
+/**
+ * Removes a job and its files from NZBDav, then forgets every stream record pointing at it,
+ * including season pack episodes that reused it. A job still marked queued may have finished
+ * without the monitor seeing it, so it is removed from both the queue and the history.
+ */
+async function deleteNzbdavJob(job: NzbdavJob): Promise<void> {
+    const params = { name: "delete", value: job.nzo_id, del_files: 1 };
+    if (job.status === "queued") await fetchNzbdav("queue", params);
+    await fetchNzbdav("history", params);
+
+    const streamKeys = new Set(getNzbdavJobStreams(job.nzo_id));
+    if (job.cache_key) streamKeys.add(job.cache_key);
+    removeNzbdavJob(job.nzo_id);
+
+    for (const key of streamKeys) forgetNzbdavStream(key);
+    const keys = [...streamKeys, job.pack_key].filter((k): k is string => !!k);
+    if (keys.length) await redis.del(...keys);
+}
+
+/**
+ * Applies the janitor policy to every job this server queued. Returns how many were deleted.
+ */
+export async function runNzbdavJanitor(now = Date.now()): Promise<number> {
+    const actions = planNzbdavCleanup(getAllNzbdavJobs(), readJanitorPolicy(), now);
+    let deleted = 0;
+
+    for (const { job, reason } of actions) {
+        try {
+            await deleteNzbdavJob(job);
+            deleted++;
+            console.log(`[Janitor] Deleted ${job.title} (${job.nzo_id}): ${reason}`);
+        } catch (err) {
+            console.warn(`[Janitor] Could not delete ${job.nzo_id}:`, err instanceof Error ? err.message : err);
+        }
+    }
+    return deleted;
+}
+
+/**
+ * Schedules hourly cleanups. No-op unless NZBDAV_JANITOR is on.
+ */
+export function startNzbdavJanitor(): void {
+    if (!Config.NZBDAV_JANITOR) return;
+
+    let running = false;
+    const tick = async () => {
+        if (running) return;
+        running = true;
+        try {
+            await runNzbdavJanitor();
+        } catch (err) {
+            console.error("[Janitor] Run failed:", err instanceof Error ? err.message : err);
+        } finally {
+            running = false;
+        }
+    };
+
+    setTimeout(tick, FIRST_RUN_DELAY_MS);
+    setInterval(tick, RUN_INTERVAL_MS);
+}
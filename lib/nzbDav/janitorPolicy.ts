@@ -0,0 +1,77 @@
+import { Config } from "../../env.ts";
+import type { NzbdavJob } from "../../utils/sqlite.ts";
+
+// --- Types ---
+
+export interface JanitorPolicy {
+    idleDays: number;
+    failedHours: number;
+    maxBytes: number; // 0 = no size cap
+}
+
+export interface CleanupAction {
+    job: NzbdavJob;
+    reason: string;
+}
+
+// --- Constants ---
+
+const HOUR_MS = 60 * 60_000;
+const DAY_MS = 24 * HOUR_MS;
+const GIGABYTE = 1024 * 1024 * 1024;
+// Anything played this recently may still be on screen, only failed jobs go regardless
+const ACTIVE_GRACE_MS = 6 * HOUR_MS;
+
+// --- Planning ---
+
+export function readJanitorPolicy(): JanitorPolicy {
+    return {
+        idleDays: Config.NZBDAV_JANITOR_IDLE_DAYS,
+        failedHours: Config.NZBDAV_JANITOR_FAILED_HOURS,
+        maxBytes: Config.NZBDAV_JANITOR_MAX_GB * GIGABYTE,
+    };
+}
+
+export function lastActivity(job: NzbdavJob): number {
+    return Math.max(job.last_played_at ?? 0, job.created_at);
+}
+
+/**
+ * Jobs to delete, in order: failed jobs past their grace, jobs nobody played for `idleDays`,
+ * then the least recently played ones until the rest fits under `maxBytes`.
+ * Pure, so the CLI can report the plan without touching NZBDav.
+ */
+export function planNzbdavCleanup(jobs: NzbdavJob[], policy: JanitorPolicy, now = Date.now()): CleanupAction[] {
+    const actions: CleanupAction[] = [];
+    const kept: NzbdavJob[] = [];
+
+    for (const job of jobs) {
+        const idle = now - lastActivity(job);
+
+        if (job.status === "failed") {
+            if (now - (job.finished_at ?? job.created_at) >= policy.failedHours * HOUR_MS) {
+                actions.push({ job, reason: "failed" });
+            }
+            continue;
+        }
+        if (idle >= policy.idleDays * DAY_MS && idle >= ACTIVE_GRACE_MS) {
+            actions.push({ job, reason: `not played for ${Math.floor(idle / DAY_MS)} days` });
+            continue;
+        }
+        kept.push(job);
+    }
+
+    if (policy.maxBytes > 0) {
+        let total = kept.reduce((sum, job) => sum + job.size, 0);
+        const lru = kept.sort((a, b) => lastActivity(a) - lastActivity(b));
+
+        for (const job of lru) {
+            if (total <= policy.maxBytes) break;
+            if (now - lastActivity(job) < ACTIVE_GRACE_MS) continue;
+            actions.push({ job, reason: "over the size cap" });
+            total -= job.size;
+        }
+    }
+
+    return actions;
+}
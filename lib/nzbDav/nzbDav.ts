@@ -5,13 +5,17 @@ import { md5 } from "../../utils/md5Encoder.ts";
 import { findBestVideoFile } from "../../utils/findBestVideoFile.ts";
 import { streamFailureVideo } from "../streamFailureVideo.ts";
 import {
+    getSearchCacheKey,
     parseRequestedEpisode,
     type EpisodeInfo,
 } from "../../utils/parseRequestedEpisode.ts";
 import { proxyNzbdavStream } from "./proxyNzbdav.ts";
 import { buildNzbdavApiParams, getNzbdavCategory, sleep } from "./nzbUtils.ts";
 import { updateNzbStatus } from "../nzbcheck.ts";
+import { isPasswordFailure, PASSWORDED_FAILURE_TTL_SECONDS } from "../../utils/releaseSafety.ts";
+import { inspectNzb } from "../../utils/nzbInspection.ts";
 import { fetcher } from "../../utils/fetcher.ts";
+import { attachNzbdavJobStream, recordNzbdavJob, setNzbdavJobStatus, touchNzbdavJob } from "../../utils/sqlite.ts";
 import { Config } from "../../env.ts";
 import {
     ACQUIRE_LOCK_SCRIPT,
@@ -28,6 +32,9 @@ const CACHE_CONFIG = {
 };
 
 const FAILURE_TTL_SECONDS = 300;
+const PACK_JOB_TTL_SECONDS = 172800; // matches the streams: record TTL
+export const ALTERNATE_STREAM_HEADER = "X-Stream-Alternate";
+const PLAYED_TOUCH_MS = 60_000; // range requests hit every few seconds, one write a minute is enough
 
 const POLLING = {
     INITIAL_WAIT: 50,
@@ -67,6 +74,7 @@ class NzbdavError extends Error {
 
 const nzbdavStreamCache = new LRU<string, Promise<StreamResult> | StreamResult>(CACHE_CONFIG.NZBDAV);
 const streamMetadataCache = new LRU<string, StreamCache>(CACHE_CONFIG.META);
+const playedTouches = new LRU<string, true>({ max: 1000, ttl: PLAYED_TOUCH_MS });
 const scriptShas: Record<string, string> = {};
 
 const isPromise = <T>(v: T | Promise<T>): v is Promise<T> =>
@@ -239,6 +247,7 @@ async function monitorNzbdavJob(nzoId: string, category: string, cacheKey: strin
                 const status = (raw.status || "").toLowerCase();
                 if (status === "completed" || status === "success") {
                     log("Monitor", `Job ${nzoId} completed`);
+                    setNzbdavJobStatus(nzoId, "completed");
                     await setJsonValue(cacheKey, "$.status", "ready").catch(() => { });
                     return;
                 }
@@ -257,6 +266,7 @@ async function monitorNzbdavJob(nzoId: string, category: string, cacheKey: strin
         log("Monitor", `Job ${nzoId} timed out`);
     } catch (err: any) {
         error("Monitor", `Failed for ${nzoId}`, err);
+        if (err.isNzbdavFailure) setNzbdavJobStatus(nzoId, "failed");
         try {
             await redis.pipeline()
                 .call("JSON.SET", cacheKey, "$.status", JSON.stringify("failed"))
@@ -274,7 +284,8 @@ async function waitForPartialVideoFile(
     cacheKey: string,
     category: string,
     jobName: string,
-    episode?: EpisodeInfo
+    episode?: EpisodeInfo,
+    seasonPack?: boolean,
 ): Promise<{ viewPath: string; name: string }> {
     const tStart = now();
     log("Wait", `Waiting for media file. Job: ${jobName}`);
@@ -290,7 +301,7 @@ async function waitForPartialVideoFile(
             return { viewPath: status.viewPath, name: status.fileName || "video.mkv" };
         }
 
-        const file = await findBestVideoFile({ category, jobName, requestedEpisode: episode, allowPartial: true } as any);
+        const file = await findBestVideoFile({ category, jobName, requestedEpisode: episode, allowPartial: true, seasonPack });
         if (file?.viewPath) {
             log("Wait", `Found on FS after ${dur(tStart)}ms`);
             return { viewPath: file.viewPath, name: file.name };
@@ -307,26 +318,46 @@ interface BuildParams {
     category: string;
     title: string;
     jobName: string;
+    size?: number;
     episode?: EpisodeInfo;
     indexer?: string;
     fileId?: string;
+    packKey?: string; // set for season packs, holds the nzoId shared by every episode
 }
 
 async function buildStream(params: BuildParams): Promise<StreamResult> {
-    const { urlHash, cacheKey, downloadUrl, category, title, jobName, episode, indexer, fileId } = params;
+    const { urlHash, cacheKey, downloadUrl, category, title, jobName, size, episode, indexer, fileId, packKey } = params;
     const t0 = now();
     const scope = `Build:${urlHash.slice(0, 6)}`;
     log(scope, `Building stream: ${title}`);
 
-    const proxyUrl = `${Config.ADDON_BASE_URL}/nzb/proxy/${urlHash}.nzb`;
-    const nzoId = await addNzbToNzbdav(proxyUrl, category, jobName);
+    // A sibling episode may already have queued this season pack
+    let nzoId = packKey ? await redis.get(packKey) : null;
+
+    if (nzoId) {
+        log(scope, `Reusing season pack job ${nzoId}`);
+        attachNzbdavJobStream(nzoId, cacheKey);
+        // The creator's monitor only marks its own episode ready
+        monitorNzbdavJob(nzoId, category, cacheKey);
+    } else {
+        // Pre-flight: an NZB without anything playable would only fail once NZBDav has processed it.
+        // The proxy serves NZBDav the copy fetched here, so this costs no extra grab.
+        const inspection = await inspectNzb(urlHash, downloadUrl);
+        if (inspection && !inspection.summary.hasVideoLike) {
+            throw new NzbdavError("Job failed: no video in NZB", `NZB has no video file (${inspection.summary.fileCount} files)`, undefined, category);
+        }
+
+        const proxyUrl = `${Config.ADDON_BASE_URL}/${Config.ADDON_SHARED_SECRET}/nzb/proxy/${urlHash}.nzb`;
+        nzoId = await addNzbToNzbdav(proxyUrl, category, jobName);
+        if (packKey) redis.set(packKey, nzoId, "EX", PACK_JOB_TTL_SECONDS).catch(() => { });
+        recordNzbdavJob({ nzo_id: nzoId, category, job_name: jobName, title, size: size ?? 0, cache_key: cacheKey, pack_key: packKey ?? null });
+        monitorNzbdavJob(nzoId, category, cacheKey);
+    }
 
     setJsonValue(cacheKey, "$", { status: "pending", nzoId, category, jobName, title, downloadUrl })
         .catch(e => error(scope, "Failed to write pending state", e));
 
-    monitorNzbdavJob(nzoId, category, cacheKey);
-
-    const partial = await waitForPartialVideoFile(cacheKey, category, jobName, episode);
+    const partial = await waitForPartialVideoFile(cacheKey, category, jobName, episode, !!packKey);
 
     log(scope, `Stream ready. Build time: ${dur(t0)}ms`);
 
@@ -434,26 +465,54 @@ async function waitForDistributedStream(
 
 // --- Main Handler ---
 
-export async function streamNzbdavProxy(keyHash: string, req: Request): Promise<Response> {
-    const tTotal = now();
-    const scope = `Req:${keyHash.slice(0, 6)}`;
-    const redisKey = `streams:${keyHash}`;
+const isAbortError = (err: any, signal?: AbortSignal) =>
+    signal?.aborted || err?.name === "AbortError" || (err instanceof DOMException && err.name === "AbortError");
 
+// Rejects once the signal aborts, to stop waiting on a shared build that keeps running for others
+const whenAborted = (signal: AbortSignal) =>
+    new Promise<never>((_, reject) => {
+        if (signal.aborted) reject(signal.reason);
+        signal.addEventListener("abort", () => reject(signal.reason), { once: true });
+    });
+
+function readAlternates(raw: string | null): string[] {
+    if (!raw) return [];
+    try {
+        const parsed = JSON.parse(raw);
+        return Array.isArray(parsed) ? parsed.filter((h): h is string => typeof h === "string") : [];
+    } catch {
+        return [];
+    }
+}
+
+export async function getStreamMeta(keyHash: string): Promise<StreamCache | undefined> {
+    const redisKey = `streams:${keyHash}`;
     let meta = streamMetadataCache.get(redisKey);
     if (!meta) {
         meta = await getJsonValue<StreamCache>(redisKey);
-        if (!meta) {
-            log(scope, `Stream metadata expired/missing`);
-            return await streamFailureVideo(req) || new Response(JSON.stringify({ error: "Stream expired" }), { status: 502 });
-        }
-        streamMetadataCache.set(redisKey, meta);
+        if (meta) streamMetadataCache.set(redisKey, meta);
     }
+    return meta;
+}
+
+/**
+ * Gets a stream ready on NZBDav: memory and Redis fast paths first, otherwise the NZB is queued
+ * under the distributed lock. Failures are recorded so later plays fast-fail. Shared by playback
+ * and background prefetches.
+ */
+export async function prepareNzbdavStream(keyHash: string, meta: StreamCache, signal?: AbortSignal): Promise<StreamResult> {
+    const tTotal = now();
+    const scope = `Req:${keyHash.slice(0, 6)}`;
+    const redisKey = `streams:${keyHash}`;
 
-    const { downloadUrl, type = "movie", title = "NZB Stream", prowlarrId, guid, indexer, rawImdbId: id } = meta;
+    const { downloadUrl, type = "movie", title = "NZB Stream", size, prowlarrId, guid, indexer, rawImdbId: id, indexers, seasonPack } = meta;
     const urlHash = md5(downloadUrl);
-    const streamCacheKey = `streams:${urlHash}`;
+    // Season packs: one stream record per episode, one NZBDav job (and failure state) per NZB
+    const streamHash = seasonPack ? keyHash : urlHash;
+    const streamCacheKey = `streams:${streamHash}`;
     const failedKey = `failed:${urlHash}`;
-    const lockKey = `lock:stream:${urlHash}`;
+    const lockKey = `lock:stream:${streamHash}`;
+    const packKey = seasonPack ? `pack:${urlHash}` : undefined;
     const category = getNzbdavCategory(type);
     const isAlt = Config.NZBDAV_URL.includes("altmount");
     const jobName = isAlt ? urlHash : title;
@@ -465,7 +524,7 @@ export async function streamNzbdavProxy(keyHash: string, req: Request): Promise<
 
         if (cachedItem && !isPromise(cachedItem)) {
             log(scope, `Memory hit! Total: ${dur(tTotal)}ms`);
-            return await proxyNzbdavStream(req, cachedItem.viewPath, cachedItem.fileName || "video.mkv", cachedItem.inFileSystem);
+            return cachedItem;
         }
 
         // FAST PATH 2: Parallelized Redis Network Checks (Saves 10-20ms of TTFB)
@@ -484,7 +543,7 @@ export async function streamNzbdavProxy(keyHash: string, req: Request): Promise<
             log(scope, `Joining in-flight build...`);
             cachedItem = await cachedItem;
             log(scope, `Memory hit (resolved)! Total: ${dur(tTotal)}ms`);
-            return await proxyNzbdavStream(req, cachedItem.viewPath, cachedItem.fileName || "video.mkv", cachedItem.inFileSystem);
+            return cachedItem;
         }
 
         if (fastFail?.status === "failed") {
@@ -502,16 +561,17 @@ export async function streamNzbdavProxy(keyHash: string, req: Request): Promise<
             };
             nzbdavStreamCache.set(streamCacheKey, result);
             log(scope, `Redis hit! Total: ${dur(tTotal)}ms`);
-            return await proxyNzbdavStream(req, result.viewPath, result.fileName, true);
+            return result;
         }
 
-        // COLD PATH: Build it
+        // COLD PATH: Build it. A cancelled prefetch stops here, a build once started is shared and runs to the end
+        signal?.throwIfAborted();
         const streamPromise = (async (): Promise<StreamResult> => {
             const hasLock = await acquireLock(lockKey, POLLING.LOCK_TIMEOUT);
 
             if (!hasLock) {
                 log(scope, `Lock busy, waiting via Pub/Sub...`);
-                return waitForDistributedStream(streamCacheKey, category, req.signal);
+                return waitForDistributedStream(streamCacheKey, category, signal);
             }
 
             const tLock = now();
@@ -523,7 +583,7 @@ export async function streamNzbdavProxy(keyHash: string, req: Request): Promise<
                     throw new NzbdavError("Job failed", recheck as string, undefined, category);
                 }
 
-                const existing = await findBestVideoFile({ category, jobName, requestedEpisode: episode });
+                const existing = await findBestVideoFile({ category, jobName, requestedEpisode: episode, seasonPack });
                 if (existing?.viewPath) {
                     const result: StreamResult = {
                         viewPath: existing.viewPath,
@@ -538,15 +598,17 @@ export async function streamNzbdavProxy(keyHash: string, req: Request): Promise<
                 }
 
                 return await buildStream({
-                    urlHash,
+                    urlHash: streamHash,
                     cacheKey: streamCacheKey,
                     downloadUrl,
                     category,
                     title,
                     jobName,
+                    size,
                     episode,
                     indexer,
-                    fileId: guid
+                    fileId: guid,
+                    packKey,
                 });
             } finally {
                 releaseLock(lockKey);
@@ -562,7 +624,7 @@ export async function streamNzbdavProxy(keyHash: string, req: Request): Promise<
             const result = await streamPromise;
             nzbdavStreamCache.set(streamCacheKey, result);
             log(scope, `Ready. Total: ${dur(tTotal)}ms`);
-            return await proxyNzbdavStream(req, result.viewPath, result.fileName || "video.mkv", result.inFileSystem);
+            return result;
         } catch (err) {
             nzbdavStreamCache.delete(streamCacheKey);
             throw err;
@@ -570,21 +632,22 @@ export async function streamNzbdavProxy(keyHash: string, req: Request): Promise<
 
     } catch (err: any) {
         // ENHANCEMENT: Early exit for client disconnects prevents database corruption
-        if (req.signal.aborted || err.name === "AbortError" || (err instanceof DOMException && err.name === "AbortError")) {
-            log(scope, `Client closed request mid-stream`);
-            return new Response(null, { status: 499 });
-        }
+        if (isAbortError(err, signal)) throw err;
 
         error(scope, `Stream Error`, err);
 
         if (err.isNzbdavFailure || err.message?.includes("failed")) {
-            redis.setex(failedKey, FAILURE_TTL_SECONDS, err.failureMessage || err.message).catch(() => { });
+            const failureMessage = err.failureMessage || err.message;
+            // Passworded archives stay broken, transient failures get retried after a few minutes
+            const failureTtl = isPasswordFailure(failureMessage) ? PASSWORDED_FAILURE_TTL_SECONDS : FAILURE_TTL_SECONDS;
+            redis.setex(failedKey, failureTtl, failureMessage).catch(() => { });
 
             const pipeline = redis.pipeline();
             pipeline.del(redisKey);
+            if (packKey) pipeline.del(packKey);
 
             if (prowlarrId && downloadUrl) {
-                const sKey = `search:${id}`;
+                const sKey = getSearchCacheKey(episode ?? { imdbid: id }, indexers);
                 pipeline.eval(REMOVE_PROWLARR_SCRIPT, 1, sKey, downloadUrl);
             }
 
@@ -595,6 +658,105 @@ export async function streamNzbdavProxy(keyHash: string, req: Request): Promise<
             }
         }
 
+        throw err;
+    }
+}
+
+/**
+ * Records playback on the job for the janitor, at most once a minute per job.
+ */
+function markPlayed(result: StreamResult): void {
+    const key = `${result.category}/${result.jobName}`;
+    if (playedTouches.has(key)) return;
+    playedTouches.set(key, true);
+    try {
+        touchNzbdavJob(result.category, result.jobName);
+    } catch (err) {
+        error("Janitor", "Failed to record playback", err);
+    }
+}
+
+/**
+ * Drops a stream from the in-memory cache once its NZBDav job is gone.
+ */
+export function forgetNzbdavStream(cacheKey: string): void {
+    nzbdavStreamCache.delete(cacheKey);
+}
+
+/**
+ * Walks the alternates the stream list recorded for a release (same resolution, next in rank)
+ * until one builds or the time budget runs out. The budget also bounds an attempt in progress,
+ * its build keeps running for later requests. Each failed attempt is recorded like a normal
+ * failure, so later requests skip it fast.
+ */
+async function streamFallback(keyHash: string, req: Request): Promise<Response | null> {
+    const scope = `Fallback:${keyHash.slice(0, 6)}`;
+    const alternates = readAlternates(await redis.get(`alternates:${keyHash}`));
+    const budget = AbortSignal.any([req.signal, AbortSignal.timeout(Config.STREAM_FALLBACK_BUDGET_SECONDS * 1000)]);
+
+    for (let i = 0; i < alternates.length; i++) {
+        if (budget.aborted) {
+            if (req.signal.aborted) throw req.signal.reason;
+            log(scope, `Time budget spent after ${i} attempt(s)`);
+            break;
+        }
+
+        const altHash = alternates[i];
+        const meta = await getStreamMeta(altHash);
+        if (!meta) continue;
+
+        log(scope, `Attempt ${i + 1}/${alternates.length}: ${meta.title}`);
+        try {
+            const result = await Promise.race([prepareNzbdavStream(altHash, meta, budget), whenAborted(budget)]);
+            log(scope, `Playing alternate ${meta.title}`);
+            markPlayed(result);
+            const response = await proxyNzbdavStream(req, result.viewPath, result.fileName || "video.mkv", result.inFileSystem);
+            // Watch history records the release that actually played
+            response.headers.set(ALTERNATE_STREAM_HEADER, altHash);
+            return response;
+        } catch (err: any) {
+            if (isAbortError(err, req.signal)) throw err;
+            if (budget.aborted) {
+                log(scope, `Time budget spent during attempt ${i + 1}`);
+                break;
+            }
+            log(scope, `Attempt ${i + 1} failed: ${err.failureMessage || err.message}`);
+        }
+    }
+    return null;
+}
+
+export async function streamNzbdavProxy(keyHash: string, req: Request): Promise<Response> {
+    const scope = `Req:${keyHash.slice(0, 6)}`;
+    const fallback = Config.STREAM_FALLBACK;
+
+    let result: StreamResult | undefined;
+    try {
+        const meta = await getStreamMeta(keyHash);
+        if (!meta) {
+            log(scope, `Stream metadata expired/missing`);
+            // A failed release loses its record, its alternates outlive it
+            const alternate = fallback ? await streamFallback(keyHash, req) : null;
+            return alternate || await streamFailureVideo(req) || new Response(JSON.stringify({ error: "Stream expired" }), { status: 502 });
+        }
+
+        try {
+            result = await prepareNzbdavStream(keyHash, meta, req.signal);
+        } catch (err: any) {
+            const alternate = fallback && err.isNzbdavFailure ? await streamFallback(keyHash, req) : null;
+            if (alternate) return alternate;
+            throw err;
+        }
+        markPlayed(result);
+        return await proxyNzbdavStream(req, result.viewPath, result.fileName || "video.mkv", result.inFileSystem);
+    } catch (err: any) {
+        if (isAbortError(err, req.signal)) {
+            log(scope, `Client closed request mid-stream`);
+            return new Response(null, { status: 499 });
+        }
+        // Build failures are logged and recorded by prepareNzbdavStream
+        if (result) error(scope, `Proxy Error`, err);
+
         return await streamFailureVideo(req, err) || new Response(JSON.stringify({ error: err.failureMessage || err.message }), {
             status: 502,
             headers: { "Content-Type": "application/json" },
@@ -203,3 +203,48 @@ export async function proxyNzbdavStream(
         return new Response(errorReason, { status: 502 });
     }
 }
+
+/**
+ * Serves a small text file (subtitles) from the WebDAV job folder with a forced MIME type.
+ * Always goes through WebDAV, STRM mode only affects video paths.
+ */
+export async function proxyNzbdavSubtitle(req: Request, webdavPath: string): Promise<Response> {
+    const cleanPath = webdavPath.replace(/^\/+/, "").split("/").map(encodeURIComponent).join("/");
+    const headers = new Headers();
+    if (AUTH_HEADER) headers.set("Authorization", AUTH_HEADER);
+
+    try {
+        const upstream = await fetch(`${WEBDAV_BASE}/${cleanPath}`, {
+            method: req.method,
+            headers,
+            client: httpClient,
+            signal: req.signal,
+        });
+
+        if (!upstream.ok) {
+            await cancelBody(upstream.body);
+            return new Response(`Upstream Error: ${upstream.status} ${upstream.statusText}`, { status: upstream.status });
+        }
+
+        const fileName = safeDecodeURIComponent(webdavPath.split("/").pop() || "subtitle.srt");
+        const resHeaders = new Headers({
+            "Content-Type": Config.SUBTITLE_MIME_MAP.get(extname(fileName).toLowerCase()) ?? "text/plain",
+            "Content-Disposition": buildContentDisposition(fileName),
+            "Access-Control-Allow-Origin": "*",
+            "Cache-Control": "max-age=86400",
+        });
+        const length = upstream.headers.get("Content-Length");
+        if (length) resHeaders.set("Content-Length", length);
+
+        if (req.method === "HEAD") {
+            await cancelBody(upstream.body);
+            return new Response(null, { status: 200, headers: resHeaders });
+        }
+        return new Response(upstream.body, { status: 200, headers: resHeaders });
+    } catch (e: unknown) {
+        if (req.signal.aborted) return new Response(null, { status: 499 });
+        const message = e instanceof Error ? e.message : String(e);
+        console.warn(`[NZBDAV] Subtitle fetch error for ${webdavPath}: ${message}`);
+        return new Response(`Network Error: ${message}`, { status: 502 });
+    }
+}
@@ -4,11 +4,15 @@ export interface StreamCache {
     guid?: string;
     indexer?: string;
     title: string;
+    name?: string; // movie or series name, for watch history
     fileName: string;
     prowlarrId?: string;
     nzbId?: string;
     type: "series" | "movie";
     rawImdbId?: string;
+    indexers?: string[]; // install's indexer subset, picks the search cache entry to evict from
+    profile?: string; // install's ranking profile, prefetches rank the next episodes with it
+    seasonPack?: boolean;
     status?: "failed" | "ready" | "pending";
     failureMessage?: string;
     nzoId?: string;
@@ -1,5 +1,6 @@
 import { fetcher } from "../utils/fetcher.ts";
 import { Config } from "../env.ts";
+import { getLocalNzbStatuses } from "../utils/nntpCheck.ts";
 
 // --- Types ---
 
@@ -36,7 +37,7 @@ const isConfigured = Boolean(Config.NZB_CHECK_URL && Config.NZB_CHECK_API_KEY);
 
 // Log once at startup instead of per-request
 if (!isConfigured) {
-    console.warn("[NzbCheck] URL or API Key not configured - checks disabled");
+    console.warn(`[NzbCheck] URL or API Key not configured - ${Config.NNTP_CHECK ? "only local NNTP checks" : "checks disabled"}`);
 }
 
 // --- Helpers ---
@@ -47,11 +48,8 @@ function buildUrl(path: string): string {
 
 // --- Exports ---
 
-/**
- * Batch check NZB completion status
- */
-export async function checkNzb(items: NzbCheckItem[]): Promise<NzbCheckResponse> {
-    if (!isConfigured || items.length === 0) {
+async function checkNzbRemote(items: NzbCheckItem[]): Promise<NzbCheckResponse> {
+    if (!isConfigured) {
         return EMPTY_RESPONSE;
     }
 
@@ -68,6 +66,29 @@ export async function checkNzb(items: NzbCheckItem[]): Promise<NzbCheckResponse>
     }
 }
 
+/**
+ * Batch check NZB completion status. Verdicts of local NNTP checks win over the service,
+ * they come straight from our own providers.
+ */
+export async function checkNzb(items: NzbCheckItem[]): Promise<NzbCheckResponse> {
+    if (items.length === 0) {
+        return EMPTY_RESPONSE;
+    }
+
+    const [remote, local] = await Promise.all([
+        checkNzbRemote(items),
+        getLocalNzbStatuses(items).catch((err) => {
+            console.error("[NzbCheck] Local status lookup failed:", err instanceof Error ? err.message : err);
+            return {} as Record<string, NzbCheckStatus>;
+        }),
+    ]);
+
+    return {
+        success: remote.success || Object.keys(local).length > 0,
+        data: { ...remote.data, ...local },
+    };
+}
+
 /**
  * Update single NZB completion status
  */
@@ -1,5 +1,12 @@
 import { Config } from "../env.ts";
 import { fetcher } from "../utils/fetcher.ts";
+import {
+    ageInDays,
+    collectNewznabAttrs,
+    readNewznabAttributes,
+    type NewznabAttributes,
+} from "../utils/newznabAttributes.ts";
+import { isSeasonPack, normalizeTitle } from "./nzbnab.ts";
 
 // --- Types based on your JSON snippet ---
 
@@ -13,9 +20,11 @@ interface HydraSearchOptions {
     type?: 'movie' | 'series';
     season?: number;
     episode?: number;
+    absoluteEpisode?: number;
+    indexers?: string[];
 }
 
-interface HydraResult {
+interface HydraResult extends NewznabAttributes {
     guid: string | null;
     title: string;
     size: number;
@@ -24,6 +33,7 @@ interface HydraResult {
     downloadUrl: string;
     publishDate: string;
     protocol: 'usenet';
+    seasonPack?: boolean;
 }
 
 // JSON Response Structure
@@ -76,23 +86,15 @@ interface HydraUrlBuilder {
 
 // --- Helpers ---
 
-const normalizeTitle = (title: string): string => {
-    return title
-        .toLowerCase()
-        .replace(/[\[\](){}]/g, '')
-        .replace(/[^a-z0-9]+/g, ' ')
-        .replace(/\b(repack|proper|internal|multi|dual|hdr|dv|atmos|subs|webrip|webdl|web-dl|bluray|uhd|remux|hevc|h265|x265|x264|avc|h264|10bit|2160p|1080p|720p|480p|576p|hdr10|dolby|vision)\b/g, '')
-        .replace(/\s+/g, ' ')
-        .trim();
-};
-
-const fileMatchesEpisode = (fileName: string, season: number, episode: number): boolean => {
+const fileMatchesEpisode = (fileName: string, season: number, episode: number, absolute?: number): boolean => {
     // Combine valid patterns into a single Regex.
     // 1. Matches "S01E01", "s1e1", "S01.E01" (Pattern 1 & 2 merged)
     // 2. Matches "1x01", "01x01" (Pattern 3)
     // Note: Removed the "Episode XX" pattern because it ignored the season 
     // (causing S02E01 to match a search for S01E01).
-    const regex = new RegExp(`(?:s0*${season}\\.?e0*${episode}|0*${season}x0*${episode})(?![0-9])`, "i");
+    // 3. Anime absolute numbering: "Show - 1043", "Show EP1043" (only when requested)
+    const absolutePattern = absolute ? `|(?:\\s-\\s|[\\s._](?:ep?|episode)[\\s.]?)0*${absolute}(?:v\\d)?` : "";
+    const regex = new RegExp(`(?:s0*${season}\\.?e0*${episode}|0*${season}x0*${episode}${absolutePattern})(?![0-9])`, "i");
 
     return regex.test(fileName);
 };
@@ -135,6 +137,20 @@ export async function searchHydra(opts: HydraSearchOptions): Promise<HydraResult
         plans.push({ t: type, q: textQuery });
     }
 
+    // Season packs never match an episode query, search the whole season too
+    if (opts.type === "series" && opts.season && opts.episode) {
+        if (opts.tvdbId) {
+            plans.push({ t: 'tvsearch', tvdbid: opts.tvdbId, season: String(opts.season) });
+        } else if (opts.name) {
+            plans.push({ t: 'tvsearch', q: `${opts.name} S${String(opts.season).padStart(2, "0")}` });
+        }
+    }
+
+    // Anime is mostly released with absolute numbering ("Show - 1043")
+    if (opts.type === "series" && opts.absoluteEpisode && opts.name) {
+        plans.push({ t: 'search', q: `${opts.name} ${String(opts.absoluteEpisode).padStart(2, "0")}` });
+    }
+
     // 2. Prepare Execution
     const categoryId = (opts.type === "series" || (opts.season && opts.episode)) ? "5000" : "2000";
     const limit = String(opts.limit ?? 25);
@@ -149,6 +165,8 @@ export async function searchHydra(opts: HydraSearchOptions): Promise<HydraResult
             o: "json", // Request JSON output
             ...plan
         });
+        // Hydra only queries the named indexers
+        if (opts.indexers?.length) params.set("indexers", opts.indexers.join(","));
 
         const url = `${Config.NZBHYDRA_URL}/api?${params.toString()}`;
         const logName = plan.imdbid ? `IMDB:${plan.imdbid}` : plan.tvdbid ? `TVDB:${plan.tvdbid}` : plan.q;
@@ -167,26 +185,27 @@ export async function searchHydra(opts: HydraSearchOptions): Promise<HydraResult
                 : [data.channel.item];
 
             return items.map((item): HydraResult | null => {
-                // Extract Indexer Name from attributes
-                const indexerAttr = item.attr.find(a => a["@attributes"].name === "hydraIndexerName");
-                const indexerName = indexerAttr ? indexerAttr["@attributes"].value : "NZBHydra2";
+                // Extract Indexer Name and the passed-through newznab attributes
+                const attrs = collectNewznabAttrs(item.attr);
+                const indexerName = attrs.get("hydraindexername") ?? "NZBHydra2";
+                const attributes = readNewznabAttributes(attrs);
 
                 // Parse Size
                 const sizeStr = item.enclosure?.["@attributes"]?.length || "0";
                 const size = parseInt(sizeStr, 10);
 
-                // Calculate Age
+                // Calculate Age, from the Usenet post date when the indexer passed it on
                 // pubDate in your JSON is seconds (float), e.g. 1763125256.0
-                const pubDateMs = item.pubDate * 1000;
-                const ageDays = Math.floor((Date.now() - pubDateMs) / (1000 * 60 * 60 * 24));
+                const publishDate = attributes.usenetDate ?? new Date(item.pubDate * 1000).toISOString();
 
                 return {
+                    ...attributes,
                     title: item.title,
                     guid: item.guid,
                     downloadUrl: item.link,
                     size,
-                    publishDate: new Date(pubDateMs).toISOString(),
-                    age: ageDays > 0 ? ageDays : 0,
+                    publishDate,
+                    age: ageInDays(publishDate),
                     indexer: indexerName,
                     protocol: 'usenet'
                 };
@@ -209,8 +228,9 @@ export async function searchHydra(opts: HydraSearchOptions): Promise<HydraResult
 
         // Strict Series Matching
         if (opts.season && opts.episode) {
-            if (!fileMatchesEpisode(result.title, opts.season, opts.episode)) {
-                continue;
+            if (!fileMatchesEpisode(result.title, opts.season, opts.episode, opts.absoluteEpisode)) {
+                if (!isSeasonPack(result.title, opts.season)) continue;
+                result.seasonPack = true;
             }
         }
 
@@ -1,17 +1,31 @@
-import { getEnabledIndexers, type Indexer } from "../utils/sqlite.ts";
+import { getEnabledIndexers, setIndexerResponseFormat, type Indexer } from "../utils/sqlite.ts";
+import { acquireIndexer, combineIndexerOutcomes, type IndexerOutcome, recordIndexerOutcome } from "../utils/indexerHealth.ts";
+import { recordIndexerApiHit, selectIndexersByBudget } from "../utils/indexerLimits.ts";
+import { getIndexerCaps, refreshStaleCaps, supportsParam, type IndexerCaps } from "../utils/newznabCaps.ts";
+import { parseNewznabXmlStream } from "../utils/newznabXml.ts";
+import {
+    collectNewznabAttrs,
+    readNewznabAttributes,
+    toCount,
+    type NewznabAttributes,
+    type RawNewznabAttr,
+} from "../utils/newznabAttributes.ts";
 
 export interface SearchOptions {
     imdbId?: string;
     tvdbId?: string;
+    tmdbId?: string;
     name?: string;
     year?: string;
     limit?: number;
     type?: "movie" | "series";
     season?: number;
     episode?: number;
+    absoluteEpisode?: number;
+    indexers?: string[]; // install config subset, names are case-insensitive
 }
 
-export interface NzbResult {
+export interface NzbResult extends NewznabAttributes {
     guid: string;
     title: string;
     size: number;
@@ -19,6 +33,7 @@ export interface NzbResult {
     indexer: string;
     downloadUrl: string;
     publishDate: string;
+    seasonPack?: boolean;
 }
 
 interface RawNewznabItem {
@@ -31,17 +46,36 @@ interface RawNewznabItem {
         length?: string | number;
     };
     size?: number | string;
+    attr?: RawNewznabAttr[] | RawNewznabAttr;
+}
+
+interface RawNewznabError {
+    code?: string | number;
+    description?: string;
+}
+
+interface RawNewznabChannel {
+    item?: RawNewznabItem[] | RawNewznabItem;
 }
 
 interface RawNewznabResponse {
-    channel?: {
-        item?: RawNewznabItem[] | RawNewznabItem;
-    };
+    channel?: RawNewznabChannel;
+    rss?: { channel?: RawNewznabChannel }; // XML-to-JSON converters keep the <rss> root
+    item?: RawNewznabItem[] | RawNewznabItem;
+    error?: RawNewznabError & { "@attributes"?: RawNewznabError };
+    "@attributes"?: RawNewznabError;
+}
+
+interface NewznabPage {
+    format: "json" | "xml";
+    items: RawNewznabItem[];
+    error: { code: string; description: string } | null;
 }
 
 const MS_PER_DAY = 86400000; // 1000 * 60 * 60 * 24
-const MOVIE_CATEGORIES = "2000,2030,2040";
-const TV_CATEGORIES = "5000,5030,5040";
+
+// Newznab error codes 500/501 are request/download limits, some indexers answer 429 instead
+const API_LIMIT_CODES = new Set(["429", "500", "501"]);
 
 // Pre-compiled regex for performance
 const NORMALIZE_BRACKETS = /[\[\](){}]/g;
@@ -49,12 +83,14 @@ const NORMALIZE_NON_ALNUM = /[^a-z0-9]+/g;
 const NORMALIZE_KEYWORDS = /\b(repack|proper|internal|multi|dual|hdr|dv|atmos|subs|webrip|webdl|web-dl|bluray|uhd|remux|hevc|h265|x265|x264|avc|h264|10bit|2160p|1080p|720p|480p|576p|hdr10|dolby|vision)\b/g;
 const NORMALIZE_SPACES = /\s+/g;
 const STRIP_NON_ALNUM = /[^a-z0-9]/g;
+const EPISODE_MARKER = /s\d{1,2}\.?e\d{1,3}|(?<![0-9])\d{1,2}x\d{2,3}(?![0-9])/i;
 
 const episodePatternCache = new Map<string, RegExp>();
 
 // --- Helpers ---
 
-function normalizeTitle(title: string): string {
+// Dedupe key for a release title, ignoring tags and punctuation. Shared by every search backend
+export function normalizeTitle(title: string): string {
     return title
         .toLowerCase()
         .replace(NORMALIZE_BRACKETS, "")
@@ -64,13 +100,18 @@ function normalizeTitle(title: string): string {
         .trim();
 }
 
-function getEpisodePattern(season: number, episode: number): RegExp {
-    const key = `${season}:${episode}`;
+// Anime absolute numbering: "Show - 1043", "Show EP1043", "Show.E1043v2"
+function absolutePattern(absolute?: number): string {
+    return absolute ? `|(?:\\s-\\s|[\\s._](?:ep?|episode)[\\s.]?)0*${absolute}(?:v\\d)?` : "";
+}
+
+function getEpisodePattern(season: number, episode: number, absolute?: number): RegExp {
+    const key = `${season}:${episode}:${absolute ?? ""}`;
     let pattern = episodePatternCache.get(key);
 
     if (!pattern) {
         pattern = new RegExp(
-            `(?:s0*${season}\\.?e0*${episode}|0*${season}x0*${episode})(?![0-9])`,
+            `(?:s0*${season}\\.?e0*${episode}|0*${season}x0*${episode}${absolutePattern(absolute)})(?![0-9])`,
             "i"
         );
         // Limit cache size
@@ -84,8 +125,14 @@ function getEpisodePattern(season: number, episode: number): RegExp {
     return pattern;
 }
 
-function fileMatchesEpisode(fileName: string, season: number, episode: number): boolean {
-    return getEpisodePattern(season, episode).test(fileName);
+function fileMatchesEpisode(fileName: string, season: number, episode: number, absolute?: number): boolean {
+    return getEpisodePattern(season, episode, absolute).test(fileName);
+}
+
+// Full season releases: "S01" or "Season 1" with no single episode marker. Shared by every search backend
+export function isSeasonPack(fileName: string, season: number): boolean {
+    if (EPISODE_MARKER.test(fileName)) return false;
+    return new RegExp(`(?:^|[^a-z0-9])(?:s0*${season}|season[. _]?0*${season})(?![0-9])`, "i").test(fileName);
 }
 
 function titleContainsName(title: string, name: string): boolean {
@@ -114,74 +161,206 @@ function extractGuid(guid: RawNewznabItem["guid"]): string {
     return "";
 }
 
+
+/**
+ * Newznab reports errors (bad key, limits) as a 200 with an error object instead of a channel.
+ */
+function extractApiError(data: RawNewznabResponse): { code: string; description: string } | null {
+    if (data.channel || data.rss?.channel) return null;
+    const err = data.error?.["@attributes"] ?? data.error ?? data["@attributes"];
+    if (!err?.code && !err?.description) return null;
+    return { code: String(err.code ?? ""), description: err.description ?? "Unknown error" };
+}
+
 function parseItem(item: RawNewznabItem, indexerName: string, now: number): NzbResult {
-    const pubDateMs = new Date(item.pubDate).getTime();
+    const rawAttrs = collectNewznabAttrs(item.attr);
+    const attributes = readNewznabAttributes(rawAttrs);
+
+    // usenetdate is when the post hit Usenet, pubDate only when the indexer saw it
+    const pubDateMs = new Date(attributes.usenetDate ?? item.pubDate).getTime();
     const ageDays = Math.max(0, ((now - pubDateMs) / MS_PER_DAY) | 0);
 
     return {
+        ...attributes,
         indexer: indexerName,
         title: item.title,
         guid: extractGuid(item.guid),
         downloadUrl: item.link,
-        size: parseSize(item),
-        publishDate: new Date(pubDateMs).toISOString(),
-        age: ageDays,
+        size: parseSize(item) || toCount(rawAttrs.get("size")) || 0,
+        publishDate: Number.isFinite(pubDateMs) ? new Date(pubDateMs).toISOString() : "",
+        age: Number.isFinite(pubDateMs) ? ageDays : 0,
     };
 }
 
+// --- Response Parsing ---
+
+async function* readChunks(reader: ReadableStreamDefaultReader<string>, head: string): AsyncGenerator<string> {
+    yield head;
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) return;
+        yield value;
+    }
+}
+
+// Root elements of a Newznab XML answer, anything else (an HTML login or error page) is not a feed
+const NEWZNAB_XML_ROOTS = new Set(["rss", "channel", "error"]);
+const XML_ROOT_SCAN_LIMIT = 64 * 1024;
+
+/** Name of the first element after the prolog, comments and doctype, or null if not seen yet. */
+function findXmlRoot(head: string): string | null {
+    const body = head.replace(/<!--[\s\S]*?-->/g, "");
+    if (body.includes("<!--")) return null;
+    return body.match(/<(?![?!])([A-Za-z_][\w:.-]*)[\s/>]/)?.[1].toLowerCase() ?? null;
+}
+
+/**
+ * Reads a search response as JSON or XML, whichever the indexer actually sent: plenty ignore
+ * `o=json` or label XML as JSON, so the first non-blank character decides. XML must have an
+ * `<rss>`, `<channel>` or `<error>` root. Returns null for JSON in a shape we do not know,
+ * the caller retries those as XML.
+ */
+async function readNewznabResponse(res: Response): Promise<NewznabPage | null> {
+    if (!res.body) return { format: "xml", items: [], error: null };
+
+    const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+    let head = "";
+    while (!/\S/.test(head.replace(/^\uFEFF/, ""))) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        head += value;
+    }
+
+    if (head.trimStart().replace(/^\uFEFF/, "").startsWith("<")) {
+        let root = findXmlRoot(head);
+        while (root === null && head.length < XML_ROOT_SCAN_LIMIT) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            head += value;
+            root = findXmlRoot(head);
+        }
+        if (!root || !NEWZNAB_XML_ROOTS.has(root)) {
+            reader.cancel().catch(() => { });
+            throw new Error(`Not a Newznab feed (${root ? `<${root}>` : "no root element"})`);
+        }
+
+        const { items, error } = await parseNewznabXmlStream(readChunks(reader, head));
+        return { format: "xml", items, error };
+    }
+
+    let text = "";
+    for await (const chunk of readChunks(reader, head)) text += chunk;
+    const data = JSON.parse(text) as RawNewznabResponse;
+
+    const error = extractApiError(data);
+    if (error) return { format: "json", items: [], error };
+
+    const channel = data.channel ?? data.rss?.channel;
+    if (!channel && !data.item) return null;
+
+    const items = channel ? channel.item : data.item;
+    return { format: "json", items: !items ? [] : Array.isArray(items) ? items : [items], error: null };
+}
+
 // --- Fetch Logic ---
 
+interface IndexerResponse {
+    results: NzbResult[];
+    outcome: IndexerOutcome;
+}
+
+/**
+ * One query against one indexer. The outcome is returned rather than recorded,
+ * a search sends several queries and counts as one health sample.
+ */
 async function fetchIndexer(
     indexer: Indexer,
     params: URLSearchParams,
     now: number,
-): Promise<NzbResult[]> {
-    const url = `${indexer.url}/api?${params}`;
-
-    try {
-        const res = await fetch(url, {
-            headers: { "Accept": "application/json" },
-            signal: AbortSignal.timeout(15000),
-        });
-
-        if (!res.ok) {
-            console.error(`[${indexer.name}] HTTP ${res.status}`);
-            return [];
-        }
+): Promise<IndexerResponse> {
+    const start = performance.now();
 
-        const data = await res.json() as RawNewznabResponse;
-        const items = data.channel?.item;
-
-        if (!items) return [];
+    const fail = (reason: string, apiLimit = false): IndexerResponse => {
+        console.error(`[${indexer.name}] ${reason}`);
+        return { results: [], outcome: { ok: false, latencyMs: performance.now() - start, reason, apiLimit } };
+    };
 
-        // Handle single item vs array
-        const rawItems = Array.isArray(items) ? items : [items];
+    // Indexers known to answer in XML are asked for it, that is the Newznab default
+    let format = indexer.response_format === "xml" ? "xml" : "json";
 
-        // Pre-allocate result array
-        const results = new Array<NzbResult>(rawItems.length);
-        for (let i = 0; i < rawItems.length; i++) {
-            results[i] = parseItem(rawItems[i], indexer.name, now);
+    try {
+        for (let attempt = 0; attempt < 2; attempt++) {
+            if (format === "xml") params.delete("o");
+            const url = `${indexer.url}/api?${params}`;
+
+            // Every request counts against the indexer's limit, failed ones included
+            recordIndexerApiHit(indexer);
+
+            const res = await fetch(url, {
+                headers: { "Accept": format === "xml" ? "application/rss+xml, application/xml" : "application/json" },
+                signal: AbortSignal.timeout(15000),
+            });
+
+            if (!res.ok) {
+                await res.body?.cancel();
+                return fail(`HTTP ${res.status}`, res.status === 429);
+            }
+
+            const page = await readNewznabResponse(res);
+            if (!page) {
+                console.warn(`[${indexer.name}] Unrecognized JSON response, switching to XML`);
+                setIndexerResponseFormat(indexer.id, "xml");
+                format = "xml";
+                continue;
+            }
+
+            if (page.format !== indexer.response_format) {
+                setIndexerResponseFormat(indexer.id, page.format);
+                indexer.response_format = page.format;
+            }
+
+            if (page.error) {
+                const { code, description } = page.error;
+                const apiLimit = API_LIMIT_CODES.has(code) || /limit/i.test(description);
+                return fail(`API error ${code}: ${description}`, apiLimit);
+            }
+
+            const latencyMs = performance.now() - start;
+
+            // Pre-allocate result array
+            const results = new Array<NzbResult>(page.items.length);
+            for (let i = 0; i < page.items.length; i++) {
+                results[i] = parseItem(page.items[i], indexer.name, now);
+            }
+
+            return { results, outcome: { ok: true, latencyMs } };
         }
 
-        return results;
+        return fail("No readable response in JSON or XML");
     } catch (err) {
-        const msg = err instanceof Error ? err.message : String(err);
-        console.error(`[${indexer.name}] ${msg}`);
-        return [];
+        return fail(err instanceof Error ? err.message : String(err));
     }
 }
 
-// --- Main Export ---
+/**
+ * Runs every query of one search against an indexer in parallel and records one health outcome for them.
+ */
+async function searchIndexer(indexer: Indexer, paramSets: URLSearchParams[], now: number): Promise<NzbResult[]> {
+    const responses = await Promise.all(paramSets.map((params) => fetchIndexer(indexer, params, now)));
+    recordIndexerOutcome(indexer.id, combineIndexerOutcomes(responses.map((r) => r.outcome)));
+    return responses.flatMap((r) => r.results);
+}
 
-export async function searchDirect(opts: SearchOptions): Promise<NzbResult[]> {
-    const indexers = getEnabledIndexers();
+// --- Query Building ---
 
-    if (indexers.length === 0) {
-        console.warn("[Search] No indexers configured");
-        return [];
-    }
+const pad = (n: number) => String(n).padStart(2, "0");
 
-    // Build base query params once
+/**
+ * Builds the query (plus season pack and absolute number variants) for one indexer.
+ * Id searches are only used when the indexer lists the parameter in its caps, otherwise
+ * the title goes into `q`. Episode numbers fall back to the text query the same way.
+ */
+function buildParamSets(opts: SearchOptions, caps: IndexerCaps): Record<string, string>[] {
     const baseParams: Record<string, string> = {
         limit: String(opts.limit ?? 25),
         extended: "1",
@@ -190,48 +369,105 @@ export async function searchDirect(opts: SearchOptions): Promise<NzbResult[]> {
 
     // Categories
     if (opts.type === "series") {
-        baseParams.cat = TV_CATEGORIES;
+        baseParams.cat = caps.tvCategories.join(",");
     } else if (opts.type === "movie") {
-        baseParams.cat = MOVIE_CATEGORIES;
+        baseParams.cat = caps.movieCategories.join(",");
     }
 
     // Search mode & identifiers
-    let mode: string;
+    const episodeParamsSupported = supportsParam(caps.tvSearch, "season") && supportsParam(caps.tvSearch, "ep");
+    let mode = "search";
 
-    if (opts.type === "movie" && opts.imdbId) {
+    if (opts.type === "movie" && opts.imdbId && supportsParam(caps.movieSearch, "imdbid")) {
         mode = "movie";
         baseParams.imdbid = opts.imdbId.replace("tt", "");
-    } else if (opts.type === "series" && opts.tvdbId) {
+    } else if (opts.type === "movie" && opts.tmdbId && supportsParam(caps.movieSearch, "tmdbid")) {
+        mode = "movie";
+        baseParams.tmdbid = opts.tmdbId;
+    } else if (opts.type === "series" && (episodeParamsSupported || !opts.episode) && hasSeriesId(opts, caps)) {
         mode = "tvsearch";
-        baseParams.tvdbid = opts.tvdbId;
+        if (opts.tvdbId && supportsParam(caps.tvSearch, "tvdbid")) baseParams.tvdbid = opts.tvdbId;
+        else if (opts.imdbId && supportsParam(caps.tvSearch, "imdbid")) baseParams.imdbid = opts.imdbId.replace("tt", "");
+        else baseParams.tmdbid = opts.tmdbId!;
         if (opts.season) baseParams.season = String(opts.season);
         if (opts.episode) baseParams.ep = String(opts.episode);
     } else if (opts.name) {
-        mode = opts.type === "series" ? "tvsearch"
-            : opts.type === "movie" ? "movie"
-                : "search";
+        const typed = opts.type === "series" ? caps.tvSearch : opts.type === "movie" ? caps.movieSearch : null;
+        mode = typed && supportsParam(typed, "q") ? (opts.type === "series" ? "tvsearch" : "movie") : "search";
 
         let query = opts.name;
         if (opts.type === "movie" && opts.year) {
             query += ` ${opts.year}`;
         } else if (opts.season && opts.episode) {
-            query += ` S${String(opts.season).padStart(2, "0")}E${String(opts.episode).padStart(2, "0")}`;
+            query += ` S${pad(opts.season)}E${pad(opts.episode)}`;
         }
         baseParams.q = query;
-    } else {
-        mode = "search";
     }
 
     baseParams.t = mode;
 
+    // Season packs never match an episode query, search the whole season alongside it
+    const paramSets: Record<string, string>[] = [baseParams];
+    if (opts.type === "series" && opts.season && opts.episode) {
+        if (baseParams.ep) {
+            const { ep: _ep, ...seasonParams } = baseParams;
+            paramSets.push(seasonParams);
+        } else if (baseParams.q) {
+            paramSets.push({ ...baseParams, q: `${opts.name} S${pad(opts.season)}` });
+        }
+    }
+
+    // Anime is mostly released with absolute numbering ("Show - 1043"), only a text search finds it
+    if (opts.absoluteEpisode && opts.name && caps.search.available) {
+        const { limit, extended, o, cat } = baseParams;
+        const q = `${opts.name} ${pad(opts.absoluteEpisode)}`;
+        paramSets.push({ limit, extended, o, cat, t: "search", q });
+    }
+
+    return paramSets;
+}
+
+function hasSeriesId(opts: SearchOptions, caps: IndexerCaps): boolean {
+    return (!!opts.tvdbId && supportsParam(caps.tvSearch, "tvdbid")) ||
+        (!!opts.imdbId && supportsParam(caps.tvSearch, "imdbid")) ||
+        (!!opts.tmdbId && supportsParam(caps.tvSearch, "tmdbid"));
+}
+
+// --- Main Export ---
+
+export async function searchDirect(opts: SearchOptions): Promise<NzbResult[]> {
+    const enabled = getEnabledIndexers();
+
+    if (enabled.length === 0) {
+        console.warn("[Search] No indexers configured");
+        return [];
+    }
+
+    // Indexers the install excluded are not queried, so they are not charged an API hit
+    const subset = opts.indexers?.length ? new Set(opts.indexers.map((i) => i.toLowerCase())) : null;
+    const configured = subset ? enabled.filter((indexer) => subset.has(indexer.name.toLowerCase())) : enabled;
+    if (configured.length === 0) return [];
+
+    // Skip indexers whose circuit is open, they are probed again once the cooldown ends
+    const indexers = selectIndexersByBudget(configured).filter((indexer) => acquireIndexer(indexer.id));
+    if (indexers.length === 0) {
+        console.warn("[Search] All indexers are paused or out of API hits");
+        return [];
+    }
+
+    refreshStaleCaps(indexers);
+
     // Capture timestamp once for consistent age calculation
     const now = Date.now();
 
-    // Build per-indexer params (only apikey differs)
+    // Each indexer gets queries built from its own caps
     const fetchPromises = indexers.map((indexer) => {
-        const params = new URLSearchParams(baseParams);
-        params.set("apikey", indexer.api_key);
-        return fetchIndexer(indexer, params, now);
+        const paramSets = buildParamSets(opts, getIndexerCaps(indexer)).map((set) => {
+            const params = new URLSearchParams(set);
+            params.set("apikey", indexer.api_key);
+            return params;
+        });
+        return searchIndexer(indexer, paramSets, now);
     });
 
     // Parallel fetch all indexers
@@ -267,9 +503,10 @@ export async function searchDirect(opts: SearchOptions): Promise<NzbResult[]> {
         // Skip invalid entries
         if (!result.downloadUrl || !result.title) continue;
 
-        // Episode filter
-        if (needsEpisodeCheck && !fileMatchesEpisode(result.title, opts.season!, opts.episode!)) {
-            continue;
+        // Episode filter, full season packs are kept and tagged
+        if (needsEpisodeCheck && !fileMatchesEpisode(result.title, opts.season!, opts.episode!, opts.absoluteEpisode)) {
+            if (!isSeasonPack(result.title, opts.season!)) continue;
+            result.seasonPack = true;
         }
 
         // Name filter
@@ -294,6 +531,31 @@ export async function searchDirect(opts: SearchOptions): Promise<NzbResult[]> {
     return finalResults;
 }
 
+/**
+ * Pulls the newest uploads in the movie or TV categories from every enabled indexer.
+ * Used to build the "Recently on Usenet" catalogs, so no dedupe or filtering here.
+ */
+export async function fetchRecent(type: "movie" | "series", limit = 100): Promise<NzbResult[]> {
+    const indexers = selectIndexersByBudget(getEnabledIndexers()).filter((indexer) => acquireIndexer(indexer.id));
+    if (indexers.length === 0) return [];
+
+    const now = Date.now();
+    const grouped = await Promise.all(indexers.map((indexer) => {
+        const caps = getIndexerCaps(indexer);
+        const params = new URLSearchParams({
+            t: "search",
+            cat: (type === "series" ? caps.tvCategories : caps.movieCategories).join(","),
+            limit: String(limit),
+            extended: "1",
+            o: "json",
+            apikey: indexer.api_key,
+        });
+        return searchIndexer(indexer, [params], now);
+    }));
+
+    return grouped.flat();
+}
+
 /**
  * Search with timeout wrapper - useful for UI with loading states
  */
@@ -1,5 +1,6 @@
 import { Config } from "../env.ts";
 import { fetcher } from "../utils/fetcher.ts";
+import { isSeasonPack, normalizeTitle } from "./nzbnab.ts";
 
 // --- Types ---
 
@@ -13,6 +14,8 @@ export interface ProwlarrSearchOptions {
     type?: "movie" | "series";
     season?: number;
     episode?: number;
+    absoluteEpisode?: number;
+    indexers?: string[];
 }
 
 export interface ProwlarrResult {
@@ -28,6 +31,11 @@ export interface ProwlarrResult {
     posterUrl: string;
     publishDate: string;
     fileName: string;
+    grabs?: number;
+    files?: number;
+    imdbId?: number; // numeric, 0 when unknown
+    tvdbId?: number;
+    seasonPack?: boolean;
 }
 
 interface SearchPlan {
@@ -41,15 +49,15 @@ const PROWLARR_URL = Config.PROWLARR_URL;
 const PROWLARR_API_KEY = Config.PROWLARR_API_KEY;
 
 // Pre-compiled regex patterns
-const NORMALIZE_BRACKETS = /[\[\](){}]/g;
-const NORMALIZE_NON_ALNUM = /[^a-z0-9]+/g;
-const NORMALIZE_KEYWORDS = /\b(repack|proper|internal|multi|dual|hdr|dv|atmos|subs|webrip|webdl|web-dl|bluray|uhd|remux|hevc|h265|x265|x264|avc|h264|10bit|2160p|1080p|720p|480p|576p|hdr10|dolby|vision)\b/g;
-const NORMALIZE_SPACES = /\s+/g;
 const STRIP_NON_ALNUM = /[^a-z0-9]/g;
 
+const INDEXER_LIST_TTL_MS = 10 * 60_000;
+
 // Episode pattern cache
 const episodePatternCache = new Map<string, RegExp>();
 
+let indexerList: { at: number; indexers: Promise<{ id: number; name: string }[]> } | null = null;
+
 // --- Helpers ---
 
 function isUsenetProtocol(result: ProwlarrResult): boolean {
@@ -67,23 +75,18 @@ function isUsenetProtocol(result: ProwlarrResult): boolean {
     );
 }
 
-function normalizeTitle(title: string): string {
-    return title
-        .toLowerCase()
-        .replace(NORMALIZE_BRACKETS, "")
-        .replace(NORMALIZE_NON_ALNUM, " ")
-        .replace(NORMALIZE_KEYWORDS, "")
-        .replace(NORMALIZE_SPACES, " ")
-        .trim();
+// Anime absolute numbering: "Show - 1043", "Show EP1043", "Show.E1043v2"
+function absolutePattern(absolute?: number): string {
+    return absolute ? `|(?:\\s-\\s|[\\s._](?:ep?|episode)[\\s.]?)0*${absolute}(?:v\\d)?` : "";
 }
 
-function getEpisodePattern(season: number, episode: number): RegExp {
-    const key = `${season}:${episode}`;
+function getEpisodePattern(season: number, episode: number, absolute?: number): RegExp {
+    const key = `${season}:${episode}:${absolute ?? ""}`;
     let pattern = episodePatternCache.get(key);
 
     if (!pattern) {
         pattern = new RegExp(
-            `(?:s0*${season}\\.?e0*${episode}|0*${season}x0*${episode}|(?:episode|ep)\\.?\\s*0*${episode})(?![0-9])`,
+            `(?:s0*${season}\\.?e0*${episode}|0*${season}x0*${episode}|(?:episode|ep)\\.?\\s*0*${episode}${absolutePattern(absolute)})(?![0-9])`,
             "i"
         );
         // Limit cache size
@@ -97,8 +100,8 @@ function getEpisodePattern(season: number, episode: number): RegExp {
     return pattern;
 }
 
-function fileMatchesEpisode(fileName: string, season: number, episode: number): boolean {
-    return getEpisodePattern(season, episode).test(fileName);
+function fileMatchesEpisode(fileName: string, season: number, episode: number, absolute?: number): boolean {
+    return getEpisodePattern(season, episode, absolute).test(fileName);
 }
 
 function titleContainsName(title: string, name: string): boolean {
@@ -111,17 +114,34 @@ function formatEpisode(season: number, episode: number): string {
     return `S${String(season).padStart(2, "0")}E${String(episode).padStart(2, "0")}`;
 }
 
+/**
+ * Prowlarr ids of the named indexers. The list is cached briefly, indexers rarely change.
+ */
+async function resolveIndexerIds(names: string[]): Promise<number[]> {
+    if (!indexerList || Date.now() - indexerList.at > INDEXER_LIST_TTL_MS) {
+        const indexers = fetcher<{ id: number; name: string }[]>(`${PROWLARR_URL}/api/v1/indexer?apikey=${PROWLARR_API_KEY}`, { timeoutMs: 10000 });
+        indexerList = { at: Date.now(), indexers };
+        indexers.catch(() => { indexerList = null; });
+    }
+
+    const wanted = new Set(names.map((n) => n.toLowerCase()));
+    return (await indexerList.indexers).filter((i) => wanted.has(i.name.toLowerCase())).map((i) => i.id);
+}
+
 // --- Search Execution ---
 
 async function executeSearch(
     plan: SearchPlan,
     baseParams: Record<string, string>,
+    indexerIds: number[],
 ): Promise<ProwlarrResult[]> {
     const params = new URLSearchParams({
         ...baseParams,
         type: plan.type,
         query: plan.query,
     });
+    // -1 searches every usenet indexer, a subset is passed as repeated ids
+    for (const id of indexerIds.length ? indexerIds : [-1]) params.append("indexerIds", String(id));
 
     const url = `${PROWLARR_URL}/api/v1/search?${params}`;
 
@@ -178,6 +198,16 @@ export async function searchProwlarr(opts: ProwlarrSearchOptions): Promise<Prowl
             textQuery += ` ${formatEpisode(opts.season, opts.episode)}`;
         }
         addPlan("search", textQuery);
+
+        // Season packs never match an episode query
+        if (opts.type === "series" && opts.season && opts.episode) {
+            addPlan("search", `${opts.name} S${String(opts.season).padStart(2, "0")}`);
+        }
+
+        // Anime is mostly released with absolute numbering ("Show - 1043")
+        if (opts.type === "series" && opts.absoluteEpisode) {
+            addPlan("search", `${opts.name} ${String(opts.absoluteEpisode).padStart(2, "0")}`);
+        }
     }
 
     if (plans.length === 0) {
@@ -190,7 +220,6 @@ export async function searchProwlarr(opts: ProwlarrSearchOptions): Promise<Prowl
         apikey: PROWLARR_API_KEY,
         limit: String(opts.limit ?? 25),
         offset: "0",
-        indexerIds: "-1",
         protocol: "usenet",
         categories: opts.type === "series" ? "5000" : "2000",
     };
@@ -198,9 +227,15 @@ export async function searchProwlarr(opts: ProwlarrSearchOptions): Promise<Prowl
     if (opts.season) baseParams.season = String(opts.season);
     if (opts.episode) baseParams.ep = String(opts.episode);
 
+    let indexerIds: number[] = [];
+    if (opts.indexers?.length) {
+        indexerIds = await resolveIndexerIds(opts.indexers);
+        if (!indexerIds.length) return [];
+    }
+
     // 3. Execute in parallel
     const results = await Promise.all(
-        plans.map(plan => executeSearch(plan, baseParams))
+        plans.map(plan => executeSearch(plan, baseParams, indexerIds))
     );
 
     // 4. Flatten with pre-allocation
@@ -223,9 +258,10 @@ export async function searchProwlarr(opts: ProwlarrSearchOptions): Promise<Prowl
             // Protocol check
             if (!isUsenetProtocol(result)) continue;
 
-            // Episode check
-            if (needsEpisodeCheck && !fileMatchesEpisode(result.title, opts.season!, opts.episode!)) {
-                continue;
+            // Episode check, full season packs are kept and tagged
+            if (needsEpisodeCheck && !fileMatchesEpisode(result.title, opts.season!, opts.episode!, opts.absoluteEpisode)) {
+                if (!isSeasonPack(result.title, opts.season!)) continue;
+                result.seasonPack = true;
             }
 
             // Name check
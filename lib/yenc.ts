@@ -0,0 +1,136 @@
+// --- Types ---
+
+export interface YencPart {
+    name: string;
+    fileSize: number; // size of the whole file from =ybegin
+    begin: number; // zero-based offset of this part in the file
+    end: number; // exclusive
+    data: Uint8Array;
+}
+
+export class YencError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "YencError";
+    }
+}
+
+// --- Constants ---
+
+const CR = 13;
+const LF = 10;
+const ESCAPE = 61; // "="
+
+const decoder = new TextDecoder();
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let i = 0; i < 256; i++) {
+        let c = i;
+        for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        table[i] = c >>> 0;
+    }
+    return table;
+})();
+
+// --- Decoding ---
+
+export function crc32(data: Uint8Array): number {
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+function readKeywords(line: string): Record<string, string> {
+    const out: Record<string, string> = {};
+    // name= is always last and may contain spaces
+    const nameAt = line.indexOf(" name=");
+    const head = nameAt === -1 ? line : line.slice(0, nameAt);
+    if (nameAt !== -1) out.name = line.slice(nameAt + 6).trim();
+
+    for (const token of head.split(" ")) {
+        const eq = token.indexOf("=");
+        if (eq > 0) out[token.slice(0, eq)] = token.slice(eq + 1);
+    }
+    return out;
+}
+
+function lineEnd(raw: Uint8Array, from: number): number {
+    const lf = raw.indexOf(LF, from);
+    return lf === -1 ? raw.length : lf;
+}
+
+function readHeaderLine(raw: Uint8Array, from: number): { line: string; next: number } {
+    const end = lineEnd(raw, from);
+    const textEnd = end > from && raw[end - 1] === CR ? end - 1 : end;
+    return { line: decoder.decode(raw.subarray(from, textEnd)), next: end + 1 };
+}
+
+/**
+ * Decodes one yEnc article body: =ybegin, optional =ypart, the data lines and =yend.
+ * Single-part posts have no =ypart and cover the whole file. The data is checked against
+ * the =yend `pcrc32` (or `crc32` for single-part posts) when the poster included one.
+ */
+export function decodeYenc(raw: Uint8Array): YencPart {
+    let pos = 0;
+    let header: { line: string; next: number };
+    do {
+        if (pos >= raw.length) throw new YencError("No =ybegin line");
+        header = readHeaderLine(raw, pos);
+        pos = header.next;
+    } while (!header.line.startsWith("=ybegin "));
+
+    const begin = readKeywords(header.line);
+    const fileSize = parseInt(begin.size ?? "", 10);
+    if (!Number.isFinite(fileSize)) throw new YencError("=ybegin without size");
+
+    let partBegin = 0;
+    let partEnd = fileSize;
+    let multipart = false;
+    const next = readHeaderLine(raw, pos);
+    if (next.line.startsWith("=ypart ")) {
+        multipart = true;
+        const part = readKeywords(next.line);
+        partBegin = parseInt(part.begin ?? "1", 10) - 1;
+        partEnd = parseInt(part.end ?? String(fileSize), 10);
+        pos = next.next;
+    }
+
+    const data = new Uint8Array(Math.max(0, partEnd - partBegin));
+    let n = 0;
+    let lineStart = true;
+    let yendAt = -1;
+
+    for (let i = pos; i < raw.length; i++) {
+        let b = raw[i];
+        if (b === CR || b === LF) {
+            lineStart = true;
+            continue;
+        }
+        if (lineStart && b === ESCAPE && raw[i + 1] === 121 /* "y" */) {
+            yendAt = i;
+            break;
+        }
+        lineStart = false;
+
+        if (b === ESCAPE) {
+            i++;
+            if (i >= raw.length) break;
+            b = (raw[i] - 64 - 42) & 0xff;
+        } else {
+            b = (b - 42) & 0xff;
+        }
+        if (n < data.length) data[n++] = b;
+    }
+
+    if (n !== data.length) throw new YencError(`Part is ${n} bytes, expected ${data.length}`);
+
+    if (yendAt !== -1) {
+        const end = readKeywords(readHeaderLine(raw, yendAt).line);
+        const expected = end.pcrc32 ?? (multipart ? undefined : end.crc32);
+        if (expected && parseInt(expected, 16) !== crc32(data)) {
+            throw new YencError(`CRC mismatch, expected ${expected.toLowerCase()}, got ${crc32(data).toString(16).padStart(8, "0")}`);
+        }
+    }
+    return { name: begin.name ?? "", fileSize, begin: partBegin, end: partEnd, data };
+}
@@ -0,0 +1,150 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { crc32, decodeYenc, YencError } from "./yenc.ts";
+
+// --- Fixtures ---
+
+const ESCAPE = 61; // "="
+const CRITICAL = new Set([0, 10, 13, ESCAPE]);
+
+function bytes(text: string): Uint8Array {
+    return new TextEncoder().encode(text);
+}
+
+function concat(...chunks: Uint8Array[]): Uint8Array {
+    const out = new Uint8Array(chunks.reduce((n, c) => n + c.length, 0));
+    let at = 0;
+    for (const chunk of chunks) {
+        out.set(chunk, at);
+        at += chunk.length;
+    }
+    return out;
+}
+
+/**
+ * Encodes `data` as yEnc data lines the way posters do: NUL, LF, CR and "=" are always
+ * escaped, and so are a dot or space/tab at the start of a line.
+ */
+function encodeLines(data: Uint8Array, lineLength = 128): Uint8Array {
+    const out: number[] = [];
+    let column = 0;
+    for (const b of data) {
+        const e = (b + 42) & 0xff;
+        const lineStart = column === 0;
+        if (CRITICAL.has(e) || (lineStart && (e === 46 || e === 32 || e === 9))) {
+            out.push(ESCAPE, (e + 64) & 0xff);
+            column += 2;
+        } else {
+            out.push(e);
+            column++;
+        }
+        if (column >= lineLength) {
+            out.push(13, 10);
+            column = 0;
+        }
+    }
+    if (column > 0) out.push(13, 10);
+    return new Uint8Array(out);
+}
+
+function hex(n: number): string {
+    return n.toString(16).padStart(8, "0");
+}
+
+interface ArticleOptions {
+    part?: { begin: number; end: number; fileSize: number };
+    trailer?: string; // replaces the computed =yend line
+    lineLength?: number;
+}
+
+function article(data: Uint8Array, name: string, opts: ArticleOptions = {}): Uint8Array {
+    const { part } = opts;
+    const head = part
+        ? `=ybegin part=1 line=128 size=${part.fileSize} name=${name}\r\n=ypart begin=${part.begin} end=${part.end}\r\n`
+        : `=ybegin line=128 size=${data.length} name=${name}\r\n`;
+    const tail = opts.trailer ?? (part
+        ? `=yend size=${data.length} part=1 pcrc32=${hex(crc32(data))}`
+        : `=yend size=${data.length} crc32=${hex(crc32(data))}`);
+    return concat(bytes(head), encodeLines(data, opts.lineLength), bytes(`${tail}\r\n`));
+}
+
+// --- CRC ---
+
+Deno.test("crc32 matches the standard check values", () => {
+    assertEquals(crc32(bytes("123456789")), 0xcbf43926);
+    assertEquals(crc32(bytes("")), 0);
+    assertEquals(crc32(bytes("Hello")), 0xf7d18982);
+});
+
+// --- Decoding ---
+
+Deno.test("decodeYenc reads a hand-encoded single-part post", () => {
+    // "Hello" shifted by 42, crc32 from the =yend line
+    const raw = concat(
+        bytes("=ybegin line=128 size=5 name=hello.txt\r\n"),
+        new Uint8Array([114, 143, 150, 150, 153, 13, 10]),
+        bytes("=yend size=5 crc32=f7d18982\r\n"),
+    );
+
+    const part = decodeYenc(raw);
+    assertEquals(part.name, "hello.txt");
+    assertEquals([part.fileSize, part.begin, part.end], [5, 0, 5]);
+    assertEquals(new TextDecoder().decode(part.data), "Hello");
+});
+
+Deno.test("decodeYenc unescapes critical bytes and line-start dots", () => {
+    // 214, 224, 227 and 19 encode to NUL, LF, CR and "=", 4 encodes to a dot
+    const data = new Uint8Array([214, 224, 227, 19, 4, 4, 1, 2, 3, 4, 255, 0]);
+    const raw = article(data, "critical.bin", { lineLength: 4 });
+
+    // Every escape decodes back to the original byte, whichever line it landed on
+    assertEquals(decodeYenc(raw).data, data);
+});
+
+Deno.test("decodeYenc skips leading lines and keeps spaces in the name", () => {
+    const data = bytes("some data");
+    const raw = concat(bytes("\r\nleftover header\r\n"), article(data, "My Movie (2024).mkv"));
+    const part = decodeYenc(raw);
+    assertEquals(part.name, "My Movie (2024).mkv");
+    assertEquals(part.data, data);
+});
+
+Deno.test("decodeYenc maps =ypart begin/end to a zero-based, end-exclusive range", () => {
+    const data = new Uint8Array(100).map((_, i) => i);
+    const part = decodeYenc(article(data, "movie.mkv", { part: { begin: 101, end: 200, fileSize: 250 } }));
+
+    assertEquals([part.fileSize, part.begin, part.end], [250, 100, 200]);
+    assertEquals(part.data, data);
+});
+
+Deno.test("decodeYenc rejects a part shorter than its =ypart range", () => {
+    const raw = article(new Uint8Array(99), "movie.mkv", { part: { begin: 101, end: 200, fileSize: 250 } });
+    assertThrows(() => decodeYenc(raw), YencError, "Part is 99 bytes, expected 100");
+});
+
+Deno.test("decodeYenc checks pcrc32 for parts and crc32 for single-part posts", () => {
+    const data = bytes("payload");
+    const part = { begin: 1, end: 7, fileSize: 700 };
+
+    assertThrows(
+        () => decodeYenc(article(data, "a.mkv", { part, trailer: "=yend size=7 part=1 pcrc32=DEADBEEF" })),
+        YencError,
+        "CRC mismatch, expected deadbeef",
+    );
+    assertThrows(
+        () => decodeYenc(article(data, "a.mkv", { trailer: "=yend size=7 crc32=deadbeef" })),
+        YencError,
+        "CRC mismatch",
+    );
+
+    // A part's crc32 covers the whole file, it cannot be checked against one part
+    const wholeFile = `=yend size=7 part=1 pcrc32=${hex(crc32(data))} crc32=deadbeef`;
+    assertEquals(decodeYenc(article(data, "a.mkv", { part, trailer: wholeFile })).data, data);
+
+    // Posters may leave the checksum out
+    assertEquals(decodeYenc(article(data, "a.mkv", { part, trailer: "=yend size=7 part=1" })).data, data);
+});
+
+Deno.test("decodeYenc rejects bodies without a usable =ybegin", () => {
+    assertThrows(() => decodeYenc(bytes("just some text\r\n")), YencError, "No =ybegin line");
+    assertThrows(() => decodeYenc(bytes("=ybegin line=128 name=x\r\n")), YencError, "=ybegin without size");
+});
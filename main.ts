@@ -3,6 +3,9 @@ import "./utils/asciiArt.ts";
 import { Config, validateConfig } from "./env.ts";
 import { jsonResponse } from "./utils/responseUtils.ts";
 import { routes } from "./routes/index.ts";
+import { startCatalogRefresher } from "./utils/catalog.ts";
+import { startNntpHealthProber } from "./utils/nntpHealth.ts";
+import { startNzbdavJanitor } from "./lib/nzbDav/janitor.ts";
 
 // --- CORS HEADERS ---
 const CORS_HEADERS = {
@@ -85,4 +88,7 @@ if (missingKeys.length > 0) {
         `${Config.ADDON_BASE_URL.replace(/\/$/, "")}/${Config.ADDON_SHARED_SECRET}/manifest.json`,
     );
     Deno.serve({ port }, handler);
+    startCatalogRefresher();
+    startNntpHealthProber();
+    startNzbdavJanitor();
 }
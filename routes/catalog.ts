@@ -0,0 +1,41 @@
+import { jsonResponse } from "../utils/responseUtils.ts";
+import { resolveAddonKey } from "../utils/apiKeys.ts";
+import { CATALOG_ID, getCatalogPage } from "../utils/catalog.ts";
+import { REGEX_JSON_EXT } from "../utils/streamHelpers.ts";
+import type { RouteMatch } from "./types.ts";
+
+const CATALOG_CACHE_MAX_AGE = 900;
+
+export const catalogRoute: RouteMatch = {
+    pattern: new URLPattern({ pathname: "/:apiKey{/profile/:profile}?/catalog/:type/:catalogId{/:extra}?" }),
+    methods: ["GET"],
+    handler: async (_req: Request, match: URLPatternResult): Promise<Response> => {
+        const { apiKey, type, catalogId, extra } = match.pathname.groups;
+
+        if (!await resolveAddonKey(apiKey)) {
+            return jsonResponse({ error: "Unauthorized" }, 401);
+        }
+
+        if (type !== "movie" && type !== "series") {
+            return jsonResponse({ error: "Invalid media type" }, 400);
+        }
+
+        if (catalogId?.replace(REGEX_JSON_EXT, "") !== CATALOG_ID) {
+            return jsonResponse({ metas: [] });
+        }
+
+        // Stremio sends extras as a query-string-like path segment: skip=100&genre=Action.json
+        const params = new URLSearchParams(extra?.replace(REGEX_JSON_EXT, "") ?? "");
+
+        try {
+            const metas = await getCatalogPage(type, {
+                skip: Number(params.get("skip")) || 0,
+                genre: params.get("genre") ?? undefined,
+            });
+            return jsonResponse({ metas }, 200, { "Cache-Control": `max-age=${CATALOG_CACHE_MAX_AGE}` });
+        } catch (err) {
+            console.error("Catalog error:", err);
+            return jsonResponse({ error: "Failed to load catalog" }, 502);
+        }
+    },
+};
@@ -0,0 +1,26 @@
+import { jsonResponse } from "../utils/responseUtils.ts";
+import { resolveAddonKey } from "../utils/apiKeys.ts";
+import { getWatchHistory } from "../utils/sqlite.ts";
+import { toWatchHistoryItem } from "../utils/watchHistory.ts";
+import type { RouteMatch } from "./types.ts";
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+export const historyRoute: RouteMatch = {
+    pattern: new URLPattern({ pathname: "/:apiKey/history" }),
+    methods: ["GET"],
+    handler: async (req: Request, match: URLPatternResult): Promise<Response> => {
+        const { apiKey } = match.pathname.groups;
+
+        const auth = await resolveAddonKey(apiKey);
+        if (!auth) {
+            return jsonResponse({ error: "Unauthorized" }, 401);
+        }
+
+        const limit = Number(new URL(req.url).searchParams.get("limit") ?? DEFAULT_LIMIT);
+        const history = getWatchHistory(auth.principal.id, Number.isInteger(limit) && limit > 0 ? Math.min(limit, MAX_LIMIT) : DEFAULT_LIMIT);
+
+        return jsonResponse({ history: history.map(toWatchHistoryItem) });
+    },
+};
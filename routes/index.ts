@@ -1,7 +1,11 @@
 import { manifestRoute } from "./manifest.ts";
 import { streamRoute } from "./stream.ts";
+import { catalogRoute } from "./catalog.ts";
+import { metaRoute } from "./meta.ts";
+import { subtitleFileRoute, subtitlesRoute } from "./subtitles.ts";
 import { nzbStreamRoute } from "./nzbStream.ts";
 import { nzbProxyRoute } from "./nzbProxy.ts";
+import { historyRoute } from "./history.ts";
 import { staticIconRoute, staticIconRouteWithPrefix } from "./static.ts";
 import type { RouteMatch } from "./types.ts";
 
@@ -13,8 +17,13 @@ export const routes: RouteMatch[] = [
     // API routes
     manifestRoute,
     streamRoute,
+    catalogRoute,
+    metaRoute,
+    subtitlesRoute,
     nzbStreamRoute,
+    subtitleFileRoute,
     nzbProxyRoute,
+    historyRoute,
 ];
 
 export type { RouteMatch } from "./types.ts";
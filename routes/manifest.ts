@@ -1,27 +1,56 @@
 import { Config } from "../env.ts";
 import { jsonResponse } from "../utils/responseUtils.ts";
+import { getRankingProfile } from "../utils/rankingProfiles.ts";
+import { resolveAddonKey } from "../utils/apiKeys.ts";
+import { md5 } from "../utils/md5Encoder.ts";
+import { CATALOG_GENRES, CATALOG_ID } from "../utils/catalog.ts";
+import { ANIME_ID_PREFIXES } from "../utils/animeMapping.ts";
 import type { RouteMatch } from "./types.ts";
 
 export const manifestRoute: RouteMatch = {
-    pattern: new URLPattern({ pathname: "/:apiKey/manifest.json" }),
+    pattern: new URLPattern({ pathname: "/:apiKey{/profile/:profile}?/manifest.json" }),
     methods: ["GET"],
     handler: async (_req: Request, match: URLPatternResult): Promise<Response> => {
-        const apiKey = match.pathname.groups.apiKey;
+        const { apiKey, profile: profileName } = match.pathname.groups;
 
-        if (apiKey !== Config.ADDON_SHARED_SECRET) {
+        const auth = await resolveAddonKey(apiKey);
+        if (!auth) {
             return jsonResponse({ error: "Unauthorized" }, 401);
         }
 
+        // Distinct id per profile so several profiles can be installed side by side
+        const profile = profileName ? getRankingProfile(profileName) : null;
+        const suffix = profile && profile.name !== "default" ? profile.name : "";
+
+        // Same for API key and per-user config installs, keyed by a short hash of the key
+        const isConfigInstall = apiKey !== Config.ADDON_SHARED_SECRET;
+        const baseId = isConfigInstall ? `com.usenet.streamer.u${md5(apiKey!).slice(0, 8)}` : "com.usenet.streamer";
+
+        const catalogs = Config.CATALOG_ENABLED
+            ? (["movie", "series"] as const).map((type) => ({
+                type,
+                id: CATALOG_ID,
+                name: "Recently on Usenet",
+                extra: [{ name: "skip" }, { name: "genre", options: CATALOG_GENRES }],
+            }))
+            : [];
+
         return jsonResponse({
-            id: "com.usenet.streamer",
+            id: suffix ? `${baseId}.${suffix}` : baseId,
             version: "1.0.1",
-            name: "UsenetStreamer",
+            name: suffix ? `UsenetStreamer (${suffix})` : "UsenetStreamer",
             description: "Usenet-powered instant streams for Stremio via Prowlarr and NZBDav",
             logo: `${Config.ADDON_BASE_URL.replace(/\/$/, "")}/assets/icon.png`,
-            resources: ["stream"],
+            resources: [
+                ...(catalogs.length ? ["catalog"] : []),
+                // Cinemeta has no anime ids, leave their meta to the Kitsu/MAL addons
+                { name: "meta", types: ["movie", "series"], idPrefixes: ["tt", "tmdb:"] },
+                "stream",
+                "subtitles",
+            ],
             types: ["movie", "series"],
-            catalogs: [],
-            idPrefixes: ["tt","tmdb:"],
+            catalogs,
+            idPrefixes: ["tt", "tmdb:", ...ANIME_ID_PREFIXES],
         });
     },
 };
@@ -0,0 +1,45 @@
+import { jsonResponse } from "../utils/responseUtils.ts";
+import { resolveAddonKey } from "../utils/apiKeys.ts";
+import { getMediaMeta } from "../utils/getMediaAndSearchResults.ts";
+import { annotateVideos, getEpisodeAvailability } from "../utils/availability.ts";
+import { REGEX_JSON_EXT } from "../utils/streamHelpers.ts";
+import type { RouteMatch } from "./types.ts";
+
+// Short, availability changes as streams get cached
+const META_CACHE_MAX_AGE = 300;
+
+export const metaRoute: RouteMatch = {
+    pattern: new URLPattern({ pathname: "/:apiKey{/profile/:profile}?/meta/:type/:id" }),
+    methods: ["GET"],
+    handler: async (_req: Request, match: URLPatternResult): Promise<Response> => {
+        const { apiKey, type, id } = match.pathname.groups;
+
+        const auth = await resolveAddonKey(apiKey);
+        if (!auth) {
+            return jsonResponse({ error: "Unauthorized" }, 401);
+        }
+
+        if (type !== "movie" && type !== "series") {
+            return jsonResponse({ error: "Invalid media type" }, 400);
+        }
+
+        try {
+            const requestedId = decodeURIComponent(id!).replace(REGEX_JSON_EXT, "");
+            let meta = await getMediaMeta(type, requestedId);
+
+            if (type === "series") {
+                try {
+                    meta = annotateVideos(meta, await getEpisodeAvailability(meta, auth.config.indexers));
+                } catch (err) {
+                    // Annotations are a bonus, plain metadata is still useful
+                    console.error("Meta availability error:", err);
+                }
+            }
+
+            return jsonResponse({ meta }, 200, { "Cache-Control": `max-age=${META_CACHE_MAX_AGE}` });
+        } catch (err) {
+            console.error("Meta error:", err);
+            return jsonResponse({ error: "Failed to load meta" }, 502);
+        }
+    },
+};
@@ -1,80 +1,50 @@
 import { redis } from "../utils/redis.ts";
 import { parseRedisJson } from "../utils/streamHelpers.ts";
+import { fetchUpstreamNzb, getCachedNzbText, NzbFetchError } from "../utils/nzbFetch.ts";
+import { resolveAddonKey } from "../utils/apiKeys.ts";
+import { acquireStreamSlot } from "../utils/streamQuota.ts";
+import { jsonResponse } from "../utils/responseUtils.ts";
 import type { RouteMatch } from "./types.ts";
 
-// Set of explicit redirect status codes
-const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
-const CACHE_TTL = 21600; // 6 hours
-
 export const nzbProxyRoute: RouteMatch = {
-    pattern: new URLPattern({ pathname: "/nzb/proxy/:hash.nzb" }),
+    pattern: new URLPattern({ pathname: "/:apiKey/nzb/proxy/:hash.nzb" }),
     methods: ["GET"],
     handler: async (req: Request, match: URLPatternResult): Promise<Response> => {
         // match.pathname.groups values can technically be undefined in standard types
-        const hash = match.pathname.groups.hash;
+        const { apiKey, hash } = match.pathname.groups;
+
+        const auth = await resolveAddonKey(apiKey);
+        if (!auth) {
+            return jsonResponse({ error: "Unauthorized" }, 401);
+        }
         if (!hash) return new Response("Missing hash", { status: 400 });
 
-        const redisKey = `streams:${hash}`;
-        const resolvedKey = `${redisKey}:resolved`;
+        // NNTP-mode players fetch the NZB here and stream from usenet themselves, so this is the grab
+        if (await acquireStreamSlot(auth.principal, hash, "grab") === "quota") {
+            return jsonResponse({ error: "Daily grab quota reached for this key" }, 429);
+        }
 
         try {
-            const [dataRaw, cachedResolvedUrl] = await Promise.all([
-                redis.call("JSON.GET", redisKey, "$"),
-                redis.get(resolvedKey),
-            ]);
-
+            const dataRaw = await redis.call("JSON.GET", `streams:${hash}`, "$");
             const data = parseRedisJson<{ downloadUrl?: string }>(dataRaw);
 
             if (!data?.downloadUrl) {
                 return new Response("Unknown NZB hash or invalid record", { status: 404 });
             }
 
-            let finalResponse: Response;
-
-            if (cachedResolvedUrl) {
-                // Pass the signal so client disconnects abort the fetch
-                finalResponse = await fetch(cachedResolvedUrl, { signal: req.signal });
-            } else {
-                const probeResp = await fetch(data.downloadUrl, {
-                    redirect: "manual",
-                    signal: req.signal
+            // Pre-flight inspection fetched it moments ago, hand out that copy instead of grabbing again
+            const cachedNzb = await getCachedNzbText(data.downloadUrl);
+            if (cachedNzb) {
+                return new Response(cachedNzb, {
+                    headers: {
+                        "Content-Type": "application/x-nzb",
+                        "Content-Disposition": `attachment; filename="${hash}.nzb"`,
+                    },
                 });
-
-                if (REDIRECT_STATUSES.has(probeResp.status)) {
-                    const location = probeResp.headers.get("location");
-
-                    // CRITICAL: Release the socket by canceling the unread body
-                    await probeResp.body?.cancel();
-
-                    if (!location) {
-                        return new Response("Redirect missing Location header", { status: 502 });
-                    }
-
-                    // Handle potential relative redirects safely
-                    const absoluteLocation = new URL(location, data.downloadUrl).toString();
-
-                    await redis.setex(resolvedKey, CACHE_TTL, absoluteLocation);
-                    finalResponse = await fetch(absoluteLocation, { signal: req.signal });
-
-                } else if (probeResp.status === 200) {
-                    finalResponse = probeResp;
-                    await redis.setex(resolvedKey, CACHE_TTL, data.downloadUrl);
-
-                } else {
-                    // CRITICAL: Release the socket
-                    await probeResp.body?.cancel();
-                    return new Response(`Unexpected upstream status: ${probeResp.status}`, { status: 502 });
-                }
             }
 
-            if (!finalResponse.ok) {
-                // Consider clearing the cache on 401, 403, and 410 as well as 404
-                if ([401, 403, 404, 410].includes(finalResponse.status)) {
-                    await redis.del(resolvedKey);
-                }
-                const errorText = await finalResponse.text(); // Reads and completes body
-                return new Response(errorText, { status: finalResponse.status });
-            }
+            // Counts against the direct indexer's grab limit, NZBDav fetches through here as well
+            const finalResponse = await fetchUpstreamNzb(hash, data.downloadUrl, req.signal);
 
             const headers = new Headers(finalResponse.headers);
 
@@ -91,6 +61,10 @@ export const nzbProxyRoute: RouteMatch = {
             return new Response(finalResponse.body, { headers });
 
         } catch (err: any) {
+            if (err instanceof NzbFetchError) {
+                return new Response(err.message, { status: err.status });
+            }
+
             // Gracefully handle the case where the client cancels the download
             if (err.name === "AbortError") {
                 // 499 is the standard Client Closed Request code
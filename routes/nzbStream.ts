@@ -1,7 +1,12 @@
-import { Config } from "../env.ts";
 import { jsonResponse } from "../utils/responseUtils.ts";
 import { streamNzbdavProxy } from "../lib/nzbDav/nzbDav.ts";
 import { streamFailureVideo } from "../lib/streamFailureVideo.ts";
+import { streamFromSegments } from "../utils/segmentStreamer.ts";
+import { prefetchNextEpisodes } from "../utils/episodePrefetch.ts";
+import { resolveAddonKey } from "../utils/apiKeys.ts";
+import { acquireStreamSlot } from "../utils/streamQuota.ts";
+import { trackPlay } from "../utils/watchHistory.ts";
+import { Config } from "../env.ts";
 import type { RouteMatch } from "./types.ts";
 
 export const nzbStreamRoute: RouteMatch = {
@@ -10,7 +15,8 @@ export const nzbStreamRoute: RouteMatch = {
     handler: async (req: Request, match: URLPatternResult): Promise<Response> => {
         const { apiKey, key } = match.pathname.groups;
 
-        if (apiKey !== Config.ADDON_SHARED_SECRET) {
+        const auth = await resolveAddonKey(apiKey);
+        if (!auth) {
             return jsonResponse({ error: "Unauthorized" }, 401);
         }
 
@@ -18,8 +24,22 @@ export const nzbStreamRoute: RouteMatch = {
             return (await streamFailureVideo(req)) || jsonResponse({ error: "Missing key" }, 502);
         }
 
+        const verdict = await acquireStreamSlot(auth.principal, key);
+        if (verdict === "concurrency") {
+            return jsonResponse({ error: "Too many concurrent streams for this key" }, 429);
+        }
+        if (verdict === "quota") {
+            return jsonResponse({ error: "Daily grab quota reached for this key" }, 429);
+        }
+
         try {
-            return await streamNzbdavProxy(key, req);
+            if (Config.BUILTIN_STREAMER) {
+                const direct = await streamFromSegments(key, req);
+                if (direct) return trackPlay(auth.principal, key, req, direct);
+            }
+            // Runs alongside playback, the viewer never waits on it
+            prefetchNextEpisodes(key, req.signal, auth.config);
+            return trackPlay(auth.principal, key, req, await streamNzbdavProxy(key, req));
         } catch (err) {
             console.error("NZBDAV proxy error:", err);
             return (await streamFailureVideo(req)) || jsonResponse({ error: "Upstream Error" }, 502);
@@ -3,39 +3,56 @@
 import { Config } from "../env.ts";
 import { jsonResponse } from "../utils/responseUtils.ts";
 import { getMediaAndSearchResults } from "../utils/getMediaAndSearchResults.ts";
-import { parseRequestedEpisode } from "../utils/parseRequestedEpisode.ts";
-import { md5 } from "../utils/md5Encoder.ts";
+import { parseRequestedEpisode, type EpisodeInfo } from "../utils/parseRequestedEpisode.ts";
+import { isAnimeId } from "../utils/animeMapping.ts";
 import { redis } from "../utils/redis.ts";
 import { filenameParse as parseRelease } from "@ctrl/video-filename-parser";
 import { formatVideoCard } from "../utils/streamFilters.ts";
 import { checkNzb } from "../lib/nzbcheck.ts";
-import { getActiveNntpServerUrls } from "../utils/sqlite.ts";
+import { getActiveNntpServerUrls, getEnabledFilterRules, getWatchedReleases } from "../utils/sqlite.ts";
+import { getInstallRankingProfile, rankResults } from "../utils/rankingProfiles.ts";
+import { applyFilterRules, compileFilterRules, formatDroppedHeader } from "../utils/filterRules.ts";
+import { compileUserConfigRules } from "../utils/userConfig.ts";
+import { resolveAddonKey } from "../utils/apiKeys.ts";
+import {
+    assessRelease,
+    getKnownFailures,
+    isPasswordFailure,
+    recordPasswordedVerdicts,
+} from "../utils/releaseSafety.ts";
+import { inspectNzb } from "../utils/nzbInspection.ts";
+import { verifyNzbCompleteness } from "../utils/nntpCheck.ts";
+import { precacheTopResults, type PrecacheCandidate } from "../utils/streamPrecache.ts";
+import { formatWatchedLine } from "../utils/watchHistory.ts";
 
 import {
     REGEX_JSON_EXT,
     extractGuidFromUrl,
-    getResolutionRank,
     getResolutionIcon,
+    getStreamHash,
     normalizeStreamName,
     parseRedisJsonScalar,
 } from "../utils/streamHelpers.ts";
 
+import type { StreamCache } from "../lib/nzbDav/types.ts";
 import type { RouteMatch, Stream } from "./types.ts";
 
 // --- CONSTANTS ---
-const NNTP_SERVERS = getActiveNntpServerUrls();
 const GIGABYTE = 1024 * 1024 * 1024;
 const STREAM_TTL = 172800; // 2 days in seconds
+const MAX_FALLBACK_ALTERNATES = 5;
 
 export const streamRoute: RouteMatch = {
-    pattern: new URLPattern({ pathname: "/:apiKey/stream/:type/:encodedParams" }),
+    pattern: new URLPattern({ pathname: "/:apiKey{/profile/:profile}?/stream/:type/:encodedParams" }),
     methods: ["GET"],
     handler: async (_req: Request, match: URLPatternResult): Promise<Response> => {
-        const { apiKey, type, encodedParams } = match.pathname.groups;
+        const { apiKey, profile: profileName, type, encodedParams } = match.pathname.groups;
 
-        if (apiKey !== Config.ADDON_SHARED_SECRET) {
+        const auth = await resolveAddonKey(apiKey);
+        if (!auth) {
             return jsonResponse({ error: "Unauthorized" }, 401);
         }
+        const userConfig = auth.config;
 
         if (type !== "movie" && type !== "series") {
             return jsonResponse({ error: "Invalid media type" }, 400);
@@ -45,17 +62,32 @@ export const streamRoute: RouteMatch = {
             const decoded = decodeURIComponent(encodedParams!).replace(REGEX_JSON_EXT, "");
 
             // 1. Resolve Query Info
-            const requestedInfo = type === "series"
+            const requestedInfo: Partial<EpisodeInfo> = type === "series" || isAnimeId(decoded)
                 ? parseRequestedEpisode(type, decoded) ?? {}
                 : { imdbid: decoded };
 
+            // Anime ids missing from the mapping table have nothing to search for
+            if (!requestedInfo.imdbid) {
+                return jsonResponse({ streams: [] });
+            }
+
             // 2. Fetch Search Results
-            const { results } = await getMediaAndSearchResults(type, requestedInfo);
+            const { cinemetaData, results: found } = await getMediaAndSearchResults(type, requestedInfo, userConfig.indexers);
+            const results = found ?? [];
 
-            if (!results || results.length === 0) {
+            // Releases this key played before, most recent first
+            const watched = Config.WATCH_HISTORY ? getWatchedReleases(auth.principal.id, decoded) : [];
+
+            if (results.length === 0 && !watched.length) {
                 return jsonResponse({ streams: [] });
             }
 
+            // Watched releases the search no longer returns are offered again, through the same checks
+            const searched = new Set(results.map((r) => getStreamHash(r, decoded)));
+            const rewatch = watched
+                .filter((w) => !searched.has(w.stream_key))
+                .map((entry) => ({ entry, record: JSON.parse(entry.release_json) as StreamCache }));
+
             // 3. Prepare NZB Checks & Enrich Data
             const itemsToCheck: any[] = [];
             const validResults: any[] = [];
@@ -63,20 +95,32 @@ export const streamRoute: RouteMatch = {
             for (let i = 0; i < results.length; i++) {
                 const r = results[i];
                 if (r.indexer && r.guid) {
-                    const guid = extractGuidFromUrl(r.guid);
+                    const guid = extractGuidFromUrl(r.guid, r.provider);
                     (r as any).extractedGuid = guid;
                     validResults.push(r);
                     itemsToCheck.push({ source_indexer: r.indexer, file_id: guid });
                 }
             }
+            for (const { record } of rewatch) {
+                if (record.indexer && record.guid) itemsToCheck.push({ source_indexer: record.indexer, file_id: record.guid });
+            }
 
             // 4. Batch NZB Check (Network)
             const nzbCheckResults = itemsToCheck.length ? await checkNzb(itemsToCheck) : { data: {} };
             const nzbData = (nzbCheckResults?.data ?? {}) as Record<string, any>;
 
-            // 5. Pre-Process & Group (Only Parsing, deferring Formatting)
-            const grouped = new Map<string, any[]>();
+            // 5. Pre-Process (Only Parsing, deferring Formatting)
+            const candidates: any[] = [];
             const isSeries = type === "series";
+            const requestedImdb = requestedInfo.imdbid.startsWith("tt") ? requestedInfo.imdbid : undefined;
+            const passwordPolicy = Config.PASSWORDED_RELEASES;
+            const obfuscatedPolicy = Config.OBFUSCATED_RELEASES;
+            const passwordVerdicts: { downloadUrl: string; reason: string }[] = [];
+
+            // Failures NZBDav or earlier verdicts already recorded for these NZBs
+            const knownFailures = passwordPolicy === "allow"
+                ? []
+                : await getKnownFailures(validResults.map((r) => r.downloadUrl));
 
             for (let i = 0; i < validResults.length; i++) {
                 const r = validResults[i];
@@ -86,48 +130,138 @@ export const streamRoute: RouteMatch = {
                 // Filter incomplete immediately
                 if (status?.is_complete === false) continue;
 
+                // Text searches also match similarly named titles, the indexer's own IMDb tag tells them apart
+                if (requestedImdb && r.imdbId && r.imdbId !== requestedImdb) continue;
+
+                // Passworded archives only fail once NZBDav has fetched them, catch what we can up front.
+                // "May be passworded" is only flagged, whatever the policy.
+                const verdict = assessRelease(r);
+                const passworded = verdict.passworded || isPasswordFailure(knownFailures[i]);
+                if (passwordPolicy !== "allow") {
+                    if (passworded && passwordPolicy === "drop") continue;
+                    r.passworded = passworded || !!verdict.maybePassworded;
+                }
+                if (obfuscatedPolicy !== "allow") {
+                    if (verdict.obfuscated && obfuscatedPolicy === "drop") continue;
+                    r.obfuscated = verdict.obfuscated;
+                }
+
                 r.is_complete = status?.is_complete ?? null;
 
                 const parsed = parseRelease(r.title, isSeries);
 
                 // OPTIMIZATION: Extract resolution directly instead of doing a dummy formatVideoCard call
-                const resolution = parsed.resolution || "Unknown";
-
-                r.resolution = resolution;
+                r.resolution = parsed.resolution || "Unknown";
                 r.parsedInfo = parsed;
 
-                let group = grouped.get(resolution);
-                if (!group) {
-                    group = [];
-                    grouped.set(resolution, group);
-                }
-                group.push(r);
+                candidates.push(r);
             }
 
-            // 6. Sort and Slice Winners
-            const sortedResolutions = Array.from(grouped.keys())
-                .sort((a, b) => getResolutionRank(b) - getResolutionRank(a));
+            // 6. Apply install config + user filter rules, then rank by profile and slice winners per resolution
+            const filterRules = [
+                ...compileUserConfigRules(userConfig),
+                ...compileFilterRules(getEnabledFilterRules()),
+            ];
+            const { kept, dropped } = applyFilterRules(candidates, filterRules);
+
+            // Re-offered watched releases skip ranking but not the policies above. Any recorded failure drops them.
+            const rewatchFailures = await getKnownFailures(rewatch.map(({ record }) => record.downloadUrl));
+            const rewatchCandidates: any[] = [];
+            for (let i = 0; i < rewatch.length; i++) {
+                const { entry, record } = rewatch[i];
+                if (rewatchFailures[i]) continue;
+                if (record.indexer && nzbData[`${record.indexer.toLowerCase()}:${record.guid}`]?.is_complete === false) continue;
+
+                const verdict = assessRelease(record);
+                if (verdict.passworded && passwordPolicy === "drop") continue;
+                if (verdict.obfuscated && obfuscatedPolicy === "drop") continue;
+
+                const parsed = parseRelease(record.title, isSeries);
+                rewatchCandidates.push({
+                    entry,
+                    record,
+                    title: record.title,
+                    size: record.size,
+                    indexer: record.indexer,
+                    resolution: parsed.resolution || "Unknown",
+                    parsedInfo: parsed,
+                    passworded: passwordPolicy !== "allow" && (verdict.passworded || !!verdict.maybePassworded),
+                    obfuscated: obfuscatedPolicy !== "allow" && verdict.obfuscated,
+                });
+            }
+            const rewatchKept = applyFilterRules(rewatchCandidates, filterRules).kept;
+            const debugHeaders: Record<string, string> = filterRules.length
+                ? { "X-Filter-Dropped": formatDroppedHeader(dropped) || "none" }
+                : {};
 
-            const finalStreamsRaw: any[] = [];
-            const getPipeline = redis.pipeline();
-            const USE_NNTP = Config.USE_STREMIO_NNTP;
+            const rankedStreams = rankResults(kept, getInstallRankingProfile(profileName, userConfig));
 
-            for (let i = 0; i < sortedResolutions.length; i++) {
-                const res = sortedResolutions[i];
-                const group = grouped.get(res)!;
+            for (let i = 0; i < rankedStreams.length; i++) {
+                rankedStreams[i].hash = getStreamHash(rankedStreams[i], decoded);
+            }
 
-                // Sort by Age then Size, and limit to top 5
-                group.sort((a, b) => (a.age - b.age) || (b.size - a.size));
-                const limit = Math.min(group.length, 5);
+            // Optional: look inside the NZBs of the top results, and check the ones NZBCheck
+            // knows nothing about on our own servers, before offering them
+            const inspectCount = Config.NZB_PEEK_COUNT;
+            const checkCount = Config.NNTP_CHECK ? Config.NNTP_CHECK_COUNT : 0;
+            const inspections = await Promise.all(
+                rankedStreams.slice(0, Math.max(inspectCount, checkCount)).map(async (r, i) => {
+                    if (r.passworded) return null;
+                    const inspection = i < inspectCount ? await inspectNzb(r.hash, r.downloadUrl) : null;
+
+                    // No point STAT-checking an NZB that gets dropped for having no video
+                    if (i < checkCount && r.is_complete === null && inspection?.summary.hasVideoLike !== false) {
+                        const item = { source_indexer: r.indexer, file_id: r.extractedGuid };
+                        r.is_complete = await verifyNzbCompleteness(item, r.hash, r.downloadUrl, Config.NNTP_CHECK_SAMPLES);
+                    }
+                    return inspection;
+                }),
+            );
 
-                for (let j = 0; j < limit; j++) {
-                    const r = group[j];
-                    r.hash = md5(r.downloadUrl);
-                    finalStreamsRaw.push(r);
+            const finalStreamsRaw: any[] = [];
+            for (let i = 0; i < rankedStreams.length; i++) {
+                const r = rankedStreams[i];
+                const inspection = inspections[i];
+
+                // Same rule as the NZBCheck filter above, for verdicts from the local check
+                if (r.is_complete === false) continue;
+
+                if (inspection) {
+                    const { summary, verdict } = inspection;
+                    // NZBDav would only fail on these after queuing them
+                    if (!summary.hasVideoLike) continue;
+
+                    if (verdict.passworded && passwordPolicy !== "allow") {
+                        passwordVerdicts.push({ downloadUrl: r.downloadUrl, reason: verdict.reason! });
+                        if (passwordPolicy === "drop") continue;
+                        r.passworded = true;
+                    }
+                    if (verdict.obfuscated && obfuscatedPolicy !== "allow") {
+                        if (obfuscatedPolicy === "drop") continue;
+                        r.obfuscated = true;
+                    }
 
-                    // Queue Redis GET
-                    getPipeline.call("JSON.GET", `streams:${r.hash}`, "$.viewPath");
+                    // Real size and layout from the NZB beat the indexer's rounded numbers
+                    if (summary.dataBytes) r.size = summary.dataBytes;
+                    r.files = summary.fileCount;
+                    r.content = summary.contentLabel;
                 }
+                finalStreamsRaw.push(r);
+            }
+
+            // Plays of NZBs whose own file list shows a password now fast-fail instead of going through NZBDav first
+            const verdictsRecorded = recordPasswordedVerdicts(passwordVerdicts);
+
+            const getPipeline = redis.pipeline();
+            const USE_NNTP = Config.USE_STREMIO_NNTP;
+            // Read per request, the health prober takes dead servers out between requests
+            const nntpServers = USE_NNTP ? getActiveNntpServerUrls() : [];
+
+            for (let i = 0; i < finalStreamsRaw.length; i++) {
+                const r = finalStreamsRaw[i];
+
+                // Queue Redis GET
+                getPipeline.call("JSON.GET", `streams:${r.hash}`, "$.viewPath");
             }
 
             // 7. OPTIMIZATION: Fire the Redis Pipeline IMMEDIATELY
@@ -148,6 +282,14 @@ export const streamRoute: RouteMatch = {
                     isComplete: r.is_complete,
                     age: r.age,
                     grabs: r.grabs,
+                    comments: r.comments,
+                    files: r.files,
+                    poster: r.poster,
+                    newsgroup: r.group,
+                    content: r.content,
+                    passworded: r.passworded,
+                    obfuscated: r.obfuscated,
+                    seasonPack: r.seasonPack,
                 });
 
                 r.lines = lines;
@@ -159,8 +301,20 @@ export const streamRoute: RouteMatch = {
             // 10. Construct Streams & Queue Redis SETs
             const setPipeline = redis.pipeline();
             const streams: Stream[] = [];
+            const pinned = new Map<string, Stream>(); // watched releases, by stream hash
+            const precacheCandidates: PrecacheCandidate[] = [];
             const addonBase = Config.ADDON_BASE_URL;
 
+            // Failed plays fall back to the next offered release of the same resolution
+            const byResolution = new Map<string, string[]>();
+            if (Config.STREAM_FALLBACK && !USE_NNTP) {
+                for (const r of finalStreamsRaw) {
+                    const group = byResolution.get(r.resolution) ?? [];
+                    group.push(r.hash);
+                    byResolution.set(r.resolution, group);
+                }
+            }
+
             for (let i = 0; i < finalStreamsRaw.length; i++) {
                 const r = finalStreamsRaw[i];
                 const hash = r.hash;
@@ -182,41 +336,98 @@ export const streamRoute: RouteMatch = {
                 };
 
                 if (USE_NNTP) {
-                    streamObj.nzbUrl = `${addonBase}/nzb/proxy/${hash}.nzb`;
-                    streamObj.servers = NNTP_SERVERS;
+                    streamObj.nzbUrl = `${addonBase}/${apiKey}/nzb/proxy/${hash}.nzb`;
+                    streamObj.servers = nntpServers;
                 } else {
-                    streamObj.url = `${addonBase}/${Config.ADDON_SHARED_SECRET}/nzb/stream/${hash}`;
+                    // Playback reuses the caller's key so quotas apply and the master secret never leaks
+                    streamObj.url = `${addonBase}/${apiKey}/nzb/stream/${hash}`;
                 }
 
-                streams.push(streamObj);
+                const seen = watched.find((w) => w.stream_key === hash);
+                if (seen) {
+                    streamObj.name = normalizeStreamName(`${getResolutionIcon(r.resolution)} 👁️${prefix} ${r.resolution}`);
+                    streamObj.title = `${formatWatchedLine(seen)}\n${r.lines}`;
+                    pinned.set(hash, streamObj);
+                } else {
+                    streams.push(streamObj);
+                }
+
+                const record: StreamCache = {
+                    downloadUrl: r.downloadUrl,
+                    title: r.title,
+                    name: cinemetaData.name,
+                    size: r.size,
+                    guid: r.extractedGuid,
+                    indexer: r.indexer,
+                    type,
+                    fileName: r.fileName,
+                    rawImdbId: decoded,
+                    indexers: userConfig.indexers,
+                    profile: profileName,
+                    seasonPack: r.seasonPack,
+                };
+                precacheCandidates.push({ hash, meta: record, cached: !!prefix, passworded: !!r.passworded, isComplete: r.is_complete });
 
                 // Queue Cache Set
-                setPipeline.call(
-                    "JSON.SET",
-                    `streams:${hash}`,
-                    "$",
-                    JSON.stringify({
-                        downloadUrl: r.downloadUrl,
-                        title: r.title,
-                        size: r.size,
-                        guid: r.extractedGuid,
-                        indexer: r.indexer,
-                        type,
-                        fileName: r.fileName,
-                        rawImdbId: decoded,
-                    }),
-                    "NX",
-                );
+                setPipeline.call("JSON.SET", `streams:${hash}`, "$", JSON.stringify(record), "NX");
                 // Expiration still runs even if NX skips the SET, giving you active-refreshing TTL!
                 setPipeline.expire(`streams:${hash}`, STREAM_TTL);
+
+                const group = byResolution.get(r.resolution);
+                if (group && group.length > 1) {
+                    const at = group.indexOf(hash);
+                    const alternates = [...group.slice(at + 1), ...group.slice(0, at)].slice(0, MAX_FALLBACK_ALTERNATES);
+                    setPipeline.set(`alternates:${hash}`, JSON.stringify(alternates), "EX", STREAM_TTL);
+                }
+            }
+
+            for (let i = 0; i < rewatchKept.length; i++) {
+                const { entry, record, resolution, parsedInfo, passworded, obfuscated } = rewatchKept[i];
+                const { lines } = formatVideoCard(parsedInfo, {
+                    size: Number((record.size / GIGABYTE).toFixed(2)).toString(),
+                    source: record.indexer ?? "Usenet",
+                    passworded,
+                    obfuscated,
+                    seasonPack: record.seasonPack,
+                });
+
+                const streamObj: Stream = {
+                    name: normalizeStreamName(`${getResolutionIcon(resolution)} 👁️ ${resolution}`),
+                    title: `${formatWatchedLine(entry)}\n${lines}`,
+                    size: record.size,
+                    behaviorHints: {
+                        bingeGroup: `nzb-${resolution}`,
+                        notWebReady: true
+                    }
+                };
+                if (USE_NNTP) {
+                    streamObj.nzbUrl = `${addonBase}/${apiKey}/nzb/proxy/${entry.stream_key}.nzb`;
+                    streamObj.servers = nntpServers;
+                } else {
+                    streamObj.url = `${addonBase}/${apiKey}/nzb/stream/${entry.stream_key}`;
+                }
+                pinned.set(entry.stream_key, streamObj);
+
+                setPipeline.call("JSON.SET", `streams:${entry.stream_key}`, "$", entry.release_json, "NX");
+                setPipeline.expire(`streams:${entry.stream_key}`, STREAM_TTL);
+            }
+
+            // Re-watching plays the same release, so it goes first
+            for (let i = watched.length - 1; i >= 0; i--) {
+                const stream = pinned.get(watched[i].stream_key);
+                if (stream) streams.unshift(stream);
             }
 
             // 11. Fire SETs (must await to ensure V8/Deno completes them before GC sweep)
             if (streams.length > 0) {
                 await setPipeline.exec();
             }
+            await verdictsRecorded;
+
+            // 12. Warm the top results on NZBDav after responding, Stremio's own NNTP client needs no jobs
+            if (!USE_NNTP) precacheTopResults(decoded, precacheCandidates);
 
-            return jsonResponse({ streams });
+            return jsonResponse({ streams }, 200, debugHeaders);
 
         } catch (err) {
             console.error("Stream list error:", err);
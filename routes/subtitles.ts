@@ -0,0 +1,65 @@
+import { Config } from "../env.ts";
+import { jsonResponse } from "../utils/responseUtils.ts";
+import { resolveAddonKey } from "../utils/apiKeys.ts";
+import { listBundledSubtitles, resolveSubtitlePath } from "../utils/subtitles.ts";
+import { proxyNzbdavSubtitle } from "../lib/nzbDav/proxyNzbdav.ts";
+import { REGEX_JSON_EXT } from "../utils/streamHelpers.ts";
+import type { RouteMatch } from "./types.ts";
+
+const SUBTITLES_CACHE_MAX_AGE = 300;
+
+export const subtitlesRoute: RouteMatch = {
+    pattern: new URLPattern({ pathname: "/:apiKey{/profile/:profile}?/subtitles/:type/:id{/:extra}?" }),
+    methods: ["GET"],
+    handler: async (_req: Request, match: URLPatternResult): Promise<Response> => {
+        const { apiKey, type, id, extra } = match.pathname.groups;
+
+        const auth = await resolveAddonKey(apiKey);
+        if (!auth) {
+            return jsonResponse({ error: "Unauthorized" }, 401);
+        }
+
+        if (type !== "movie" && type !== "series") {
+            return jsonResponse({ error: "Invalid media type" }, 400);
+        }
+
+        // Without extras the id carries the .json suffix
+        const videoId = decodeURIComponent(extra ? id! : id!.replace(REGEX_JSON_EXT, ""));
+
+        try {
+            const base = `${Config.ADDON_BASE_URL.replace(/\/$/, "")}/${apiKey}/nzb/subtitle`;
+            const subtitles = await listBundledSubtitles(videoId, base, auth.config.indexers);
+            return jsonResponse({ subtitles }, 200, { "Cache-Control": `max-age=${SUBTITLES_CACHE_MAX_AGE}` });
+        } catch (err) {
+            console.error("Subtitles error:", err);
+            return jsonResponse({ subtitles: [] });
+        }
+    },
+};
+
+export const subtitleFileRoute: RouteMatch = {
+    pattern: new URLPattern({ pathname: "/:apiKey/nzb/subtitle/:hash/:file" }),
+    methods: ["GET", "HEAD"],
+    handler: async (req: Request, match: URLPatternResult): Promise<Response> => {
+        const { apiKey, hash, file } = match.pathname.groups;
+
+        const auth = await resolveAddonKey(apiKey);
+        if (!auth) {
+            return jsonResponse({ error: "Unauthorized" }, 401);
+        }
+
+        let relPath: string;
+        try {
+            relPath = decodeURIComponent(file!);
+        } catch {
+            return jsonResponse({ error: "Invalid path" }, 400);
+        }
+
+        const webdavPath = await resolveSubtitlePath(hash!, relPath);
+        if (!webdavPath) {
+            return jsonResponse({ error: "Not found" }, 404);
+        }
+
+        return await proxyNzbdavSubtitle(req, webdavPath);
+    },
+};
@@ -0,0 +1,139 @@
+import { useState, useEffect } from "preact/hooks";
+import type { FilterRule } from "../../utils/sqlite.ts";
+
+const RULE_TYPES: { value: string; label: string; placeholder: string }[] = [
+    { value: "exclude_source", label: "Exclude Sources", placeholder: "CAM,TELESYNC,TELECINE,SCREENER" },
+    { value: "require_language", label: "Require Language", placeholder: "English,German" },
+    { value: "block_group", label: "Block Release Groups", placeholder: "YIFY,EVO" },
+    { value: "max_size", label: "Max Size per Resolution (GB)", placeholder: "2160P:60,1080P:20,*:15" },
+    { value: "title_regex", label: "Reject Title Regex", placeholder: "\\b(hdcam|hc)\\b" },
+];
+
+export function FilterRulesSection() {
+    const [rules, setRules] = useState<FilterRule[]>([]);
+    const [newRule, setNewRule] = useState({ name: '', type: RULE_TYPES[0].value, value: '' });
+    const [adding, setAdding] = useState(false);
+    const [localMessage, setLocalMessage] = useState<{ text: string; type: "success" | "error" } | null>(null);
+
+    useEffect(() => {
+        fetchRules();
+    }, []);
+
+    const fetchRules = async () => {
+        try {
+            const response = await fetch("/api/filter_rules");
+            if (!response.ok) throw new Error("Failed");
+            setRules(await response.json());
+        } catch (e) { console.error(e); }
+    };
+
+    const handleNewRuleChange = (e: Event) => {
+        const { name, value } = e.target as HTMLInputElement;
+        setNewRule((prev) => ({ ...prev, [name]: value }));
+    };
+
+    const handleAddRule = async () => {
+        if (!newRule.name || !newRule.value) {
+            setLocalMessage({ text: "Name and Value are required.", type: "error" });
+            return;
+        }
+
+        setAdding(true);
+        setLocalMessage(null);
+
+        try {
+            const res = await fetch("/api/filter_rules", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify(newRule),
+            });
+
+            if (!res.ok) {
+                const errData = await res.json();
+                throw new Error(errData.message || "Failed to save rule");
+            }
+
+            setLocalMessage({ text: "✓ Rule Added!", type: "success" });
+            setNewRule({ name: '', type: newRule.type, value: '' });
+            fetchRules();
+        } catch (error: any) {
+            setLocalMessage({ text: error.message, type: "error" });
+        } finally {
+            setAdding(false);
+            setTimeout(() => {
+                setLocalMessage((current) => current?.type === 'success' ? null : current);
+            }, 3000);
+        }
+    };
+
+    const handleToggleRule = async (id: number, enabled: boolean) => {
+        await fetch(`/api/filter_rules/${id}/toggle`, {
+            method: "PATCH",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ enabled: !enabled }),
+        });
+        fetchRules();
+    };
+
+    const handleRemoveRule = async (id: number) => {
+        if (!confirm("Remove this rule?")) return;
+        await fetch(`/api/filter_rules/${id}`, { method: "DELETE" });
+        fetchRules();
+    };
+
+    const selectedType = RULE_TYPES.find((t) => t.value === newRule.type) ?? RULE_TYPES[0];
+
+    return (
+        <fieldset class="mb-10 pb-8 border-b border-white/5">
+            <legend class="text-xl font-bold text-rose-400 mb-6">Release Filters</legend>
+            <p class="text-sm text-slate-400 mb-6">
+                Rules run before ranking. Drop counts per rule are reported in the <code class="text-slate-300">X-Filter-Dropped</code> response header.
+            </p>
+
+            {localMessage && (
+                <div class={`mb-6 p-3 rounded-lg border ${localMessage.type === 'success' ? 'bg-green-500/10 border-green-500/30 text-green-300' : 'bg-red-500/10 border-red-500/30 text-red-300'}`}>
+                    {localMessage.text}
+                </div>
+            )}
+
+            {/* Add New Rule (not a nested form: this section lives inside ConfigForm) */}
+            <div class="grid grid-cols-1 md:grid-cols-3 gap-4 items-end mb-8">
+                <input type="text" name="name" value={newRule.name} onChange={handleNewRuleChange} placeholder="Label (e.g. No CAM)" class="w-full p-3 rounded-lg bg-slate-900 border border-white/10 text-white focus:ring-2 focus:ring-rose-500 outline-none" />
+                <select name="type" value={newRule.type} onChange={handleNewRuleChange}
+                    class="w-full p-3 rounded-lg bg-slate-900 border border-white/10 text-white focus:ring-2 focus:ring-rose-500 outline-none appearance-none">
+                    {RULE_TYPES.map((t) => (
+                        <option key={t.value} value={t.value}>{t.label}</option>
+                    ))}
+                </select>
+                <input type="text" name="value" value={newRule.value} onChange={handleNewRuleChange} placeholder={selectedType.placeholder} class="w-full p-3 rounded-lg bg-slate-900 border border-white/10 text-white focus:ring-2 focus:ring-rose-500 outline-none" />
+
+                <div class="md:col-span-3 text-right">
+                    <button type="button" onClick={handleAddRule} disabled={adding}
+                        class="w-full bg-rose-600 py-2 rounded-lg text-white font-bold hover:bg-rose-500 disabled:opacity-50">
+                        {adding ? "Adding..." : "Add Rule"}
+                    </button>
+                </div>
+            </div>
+
+            {/* List */}
+            <ul class="space-y-4">
+                {rules.map((rule) => (
+                    <li key={rule.id} class="bg-slate-900 rounded-lg p-4 border border-white/10 flex justify-between items-center">
+                        <div>
+                            <div class="font-bold text-white">{rule.name}</div>
+                            <div class="text-xs text-slate-500">
+                                {RULE_TYPES.find((t) => t.value === rule.type)?.label ?? rule.type}: <code>{rule.value}</code>
+                            </div>
+                        </div>
+                        <div class="flex gap-2">
+                            <button type="button" onClick={() => handleToggleRule(rule.id, rule.enabled === 1)} class={`text-xs px-2 py-1 rounded ${rule.enabled ? 'bg-green-500/20 text-green-400' : 'bg-red-500/20 text-red-400'}`}>
+                                {rule.enabled ? 'On' : 'Off'}
+                            </button>
+                            <button type="button" onClick={() => handleRemoveRule(rule.id)} class="text-red-400 hover:text-red-300">✕</button>
+                        </div>
+                    </li>
+                ))}
+            </ul>
+        </fieldset>
+    );
+}
@@ -1,6 +1,7 @@
 import { useState, useEffect } from "preact/hooks";
 import { Config, IndexingMethod } from "../../utils/configTypes.ts";
 import type { Indexer } from "../../../utils/sqlite.ts";
+import type { IndexerHealth } from "../../utils/sqlite.ts";
 
 interface Props {
     config: Config;
@@ -8,6 +9,8 @@ interface Props {
     onMethodChange: (method: IndexingMethod) => void;
 }
 
+type IndexerWithHealth = Indexer & { health: IndexerHealth | null };
+
 interface IndexerPreset {
     name: string;
     url: string;
@@ -17,7 +20,7 @@ export function IndexingSection({ config, onChange, onMethodChange }: Props) {
     const [showProwlarrKey, setShowProwlarrKey] = useState(false);
     const [showNzbHydraKey, setShowNzbHydraKey] = useState(false);
 
-    const [indexers, setIndexers] = useState<Indexer[]>([]);
+    const [indexers, setIndexers] = useState<IndexerWithHealth[]>([]);
     const [presets, setPresets] = useState<IndexerPreset[]>([]);
     const [selectedPreset, setSelectedPreset] = useState("custom");
 
@@ -57,6 +60,18 @@ export function IndexingSection({ config, onChange, onMethodChange }: Props) {
         } catch (e) { console.error(e); }
     };
 
+    // Mirrors the circuit breaker in utils/indexerHealth.ts
+    const describeHealth = (h: IndexerHealth | null) => {
+        if (!h) return { label: "No searches yet", tone: "text-slate-500" };
+        if (h.consecutive_failures >= 3 && h.circuit_open_until > Date.now()) {
+            const until = new Date(h.circuit_open_until).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+            return { label: `Paused until ${until}`, tone: "text-red-400" };
+        }
+        const latency = h.p50_ms != null ? ` · p50 ${h.p50_ms}ms / p95 ${h.p95_ms}ms` : "";
+        const errors = `${Math.round(h.error_rate * 100)}% errors`;
+        return { label: `${errors}${latency}`, tone: h.error_rate > 0.2 ? "text-amber-400" : "text-green-400" };
+    };
+
     const handlePresetChange = (e: Event) => {
         const value = (e.target as HTMLSelectElement).value;
         setSelectedPreset(value);
@@ -277,11 +292,22 @@ export function IndexingSection({ config, onChange, onMethodChange }: Props) {
 
                             {/* List */}
                             <ul class="space-y-4">
-                                {indexers.map((idx) => (
+                                {indexers.map((idx) => {
+                                    const health = describeHealth(idx.health);
+                                    return (
                                     <li key={idx.id} class="bg-slate-900 rounded-lg p-4 border border-white/10 flex justify-between items-center">
                                         <div>
                                             <div class="font-bold text-white">{idx.name}</div>
                                             <div class="text-xs text-slate-500">{idx.url}</div>
+                                            <div class={`text-xs mt-1 ${health.tone}`}>
+                                                {health.label}
+                                                {idx.health?.api_limit_hits ? ` · ${idx.health.api_limit_hits} API limit hits` : ""}
+                                            </div>
+                                            {idx.health?.last_failure_reason && (
+                                                <div class="text-xs text-slate-500" title={idx.health.last_failure_reason}>
+                                                    Last error: {idx.health.last_failure_reason}
+                                                </div>
+                                            )}
                                         </div>
                                         <div class="flex gap-2">
                                             <button type="button" onClick={() => handleToggleIndexer(idx.id, idx.enabled === 1)} class={`text-xs px-2 py-1 rounded ${idx.enabled ? 'bg-green-500/20 text-green-400' : 'bg-red-500/20 text-red-400'}`}>
@@ -290,7 +316,8 @@ export function IndexingSection({ config, onChange, onMethodChange }: Props) {
                                             <button type="button" onClick={() => handleRemoveIndexer(idx.id)} class="text-red-400 hover:text-red-300">✕</button>
                                         </div>
                                     </li>
-                                ))}
+                                    );
+                                })}
                             </ul>
                         </div>
                     )}
@@ -1,13 +1,15 @@
 import { useState, useEffect } from "preact/hooks";
 import { Config } from "../../utils/configTypes.ts";
-import type { NntpServer } from "../../utils/sqlite.ts";
+import type { NntpServer, NntpServerHealth } from "../../utils/sqlite.ts";
 
 interface Props {
     config: Config;
 }
 
+type NntpServerWithHealth = NntpServer & { health: NntpServerHealth | null };
+
 export function StremioNNTPSection({ config }: Props) {
-    const [servers, setServers] = useState<NntpServer[]>([]);
+    const [servers, setServers] = useState<NntpServerWithHealth[]>([]);
     const [loading, setLoading] = useState(false);
     const [submitting, setSubmitting] = useState(false);
     const [message, setMessage] = useState<{ text: string; type: "success" | "error" } | null>(null);
@@ -42,6 +44,15 @@ export function StremioNNTPSection({ config }: Props) {
         }
     };
 
+    const describeHealth = (h: NntpServerHealth | null) => {
+        if (!h || h.status === "unknown") return { label: "Not probed yet", tone: "text-slate-500" };
+        if (h.status === "auth_failed") return { label: "Login failed · left out of streams", tone: "text-red-400" };
+        if (h.status !== "ok") return { label: `${h.status === "unreachable" ? "Unreachable" : "Probe failed"} · left out of streams`, tone: "text-red-400" };
+
+        const retention = h.retention_days != null ? ` · ${h.retention_days.toLocaleString()} days retention` : "";
+        return { label: `Healthy · login ${h.latency_ms}ms${retention}`, tone: h.latency_ms != null && h.latency_ms > 2000 ? "text-amber-400" : "text-green-400" };
+    };
+
     const handleInputChange = (e: Event) => {
         const target = e.target as HTMLInputElement;
         const value = target.type === 'checkbox' ? target.checked : target.value;
@@ -169,7 +180,9 @@ export function StremioNNTPSection({ config }: Props) {
                     ) : servers.length === 0 ? (
                         <div class="text-center text-slate-500 py-4">No servers configured.</div>
                     ) : (
-                        servers.map(server => (
+                        servers.map(server => {
+                            const health = describeHealth(server.health);
+                            return (
                             <div key={server.id} class={`flex flex-col md:flex-row items-center justify-between p-4 rounded-lg border ${server.active === 1 ? 'bg-slate-700/50 border-white/10' : 'bg-slate-800/50 border-white/5 opacity-75'}`}>
                                 <div class="flex-1">
                                     <div class="flex items-center gap-3">
@@ -183,6 +196,14 @@ export function StremioNNTPSection({ config }: Props) {
                                         <span class="text-slate-600">|</span>
                                         <span>{server.username || 'No Auth'}</span>
                                     </div>
+                                    {server.active === 1 && (
+                                        <div class={`text-xs mt-1 ${health.tone}`}>{health.label}</div>
+                                    )}
+                                    {server.active === 1 && server.health?.status !== "ok" && server.health?.last_error && (
+                                        <div class="text-xs text-slate-500" title={server.health.last_error}>
+                                            Last error: {server.health.last_error}
+                                        </div>
+                                    )}
                                 </div>
 
                                 <div class="flex items-center gap-3 mt-3 md:mt-0">
@@ -202,7 +223,8 @@ export function StremioNNTPSection({ config }: Props) {
                                     </button>
                                 </div>
                             </div>
-                        ))
+                            );
+                        })
                     )}
                 </div>
             </div>
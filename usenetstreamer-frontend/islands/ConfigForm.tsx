@@ -7,6 +7,7 @@ import { NzbCheckSection } from "../components/config/NzbCheckSection.tsx";
 import { InstallSection } from "../components/config/InstallSection.tsx";
 import { RedisSection } from "../components/config/RedisSection.tsx";
 import { StremioNNTPSection } from "../components/config/StremioNntpSection.tsx";
+import { FilterRulesSection } from "../components/config/FilterRulesSection.tsx";
 
 const FeatureFlagsSection = ({ config, onChange }: { config: Config, onChange: (e: Event) => void }) => (
     <fieldset class="mb-10 pb-8 border-b border-white/5">
@@ -119,6 +120,7 @@ export default function ConfigForm() {
             <StremioSection config={config} onChange={handleChange} />
             <NzbCheckSection config={config} onChange={handleChange} />
             <FeatureFlagsSection config={config} onChange={handleChange} />
+            <FilterRulesSection />
 
             <InstallSection config={config} />
 
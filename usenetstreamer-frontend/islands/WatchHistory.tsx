@@ -0,0 +1,81 @@
+import { useState, useEffect } from "preact/hooks";
+import type { WatchEntry } from "../utils/sqlite.ts";
+
+const formatBytes = (bytes: number) => `${(bytes / 1024 ** 3).toFixed(2)} GB`;
+
+const formatEpisode = (entry: WatchEntry) =>
+    entry.season && entry.episode ? `S${String(entry.season).padStart(2, "0")}E${String(entry.episode).padStart(2, "0")}` : "";
+
+const formatKey = (id: number) => id === 0 ? "Master" : `Key #${id}`;
+
+export default function WatchHistory() {
+    const [entries, setEntries] = useState<WatchEntry[]>([]);
+    const [keyFilter, setKeyFilter] = useState("");
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => {
+        fetchHistory();
+    }, []);
+
+    const fetchHistory = async () => {
+        try {
+            const response = await fetch("/api/history");
+            if (!response.ok) throw new Error("Failed");
+            setEntries(await response.json());
+        } catch (e) { console.error(e); } finally {
+            setLoading(false);
+        }
+    };
+
+    const keys = [...new Set(entries.map((e) => e.api_key_id))].sort((a, b) => a - b);
+    const shown = keyFilter === "" ? entries : entries.filter((e) => e.api_key_id === Number(keyFilter));
+
+    if (loading) return <div class="text-center text-slate-400">Loading history...</div>;
+
+    return (
+        <div class="rounded-2xl border border-white/10 bg-slate-900/60 p-8">
+            <div class="flex items-center justify-between mb-6">
+                <p class="text-sm text-slate-400">
+                    Plays through <code class="text-slate-300">/nzb/stream</code>, per API key. Watched releases are pinned to the top of stream lists.
+                </p>
+                <select value={keyFilter} onChange={(e) => setKeyFilter((e.target as HTMLSelectElement).value)}
+                    class="p-2 rounded-lg bg-slate-900 border border-white/10 text-white focus:ring-2 focus:ring-sky-500 outline-none">
+                    <option value="">All keys</option>
+                    {keys.map((id) => <option key={id} value={String(id)}>{formatKey(id)}</option>)}
+                </select>
+            </div>
+
+            {shown.length === 0
+                ? <div class="text-center text-slate-500 py-8">Nothing played yet.</div>
+                : (
+                    <ul class="space-y-4">
+                        {shown.map((entry) => {
+                            const progress = entry.total_bytes ? Math.min(100, Math.round((entry.position_bytes / entry.total_bytes) * 100)) : null;
+                            return (
+                                <li key={`${entry.api_key_id}:${entry.video_id}:${entry.started_at}`} class="bg-slate-900 rounded-lg p-4 border border-white/10">
+                                    <div class="flex justify-between items-start gap-4">
+                                        <div class="min-w-0">
+                                            <div class="font-bold text-white">
+                                                {entry.title} <span class="text-sky-400">{formatEpisode(entry)}</span>
+                                            </div>
+                                            <div class="text-xs text-slate-500 truncate" title={entry.release_title}>{entry.release_title}</div>
+                                            <div class="text-xs text-slate-500 mt-1">
+                                                <a href={`https://www.imdb.com/title/${entry.imdb_id}/`} target="_blank" class="hover:text-sky-400">{entry.imdb_id}</a>
+                                                {` · ${formatKey(entry.api_key_id)} · ${formatBytes(entry.bytes_served)} served · last played ${new Date(entry.last_played_at).toLocaleString()}`}
+                                            </div>
+                                        </div>
+                                        <div class="text-xs text-slate-400 whitespace-nowrap">{progress === null ? "—" : `${progress}%`}</div>
+                                    </div>
+                                    {progress !== null && (
+                                        <div class="mt-3 h-1.5 rounded-full bg-slate-800 overflow-hidden">
+                                            <div class="h-full bg-sky-500" style={{ width: `${progress}%` }}></div>
+                                        </div>
+                                    )}
+                                </li>
+                            );
+                        })}
+                    </ul>
+                )}
+        </div>
+    );
+}
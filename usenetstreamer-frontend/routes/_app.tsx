@@ -24,6 +24,7 @@ export default define.page(function App({ Component }) {
               <div class="hidden md:flex gap-8 text-sm font-medium text-slate-400">
                 <a href="#features" class="hover:text-sky-400 transition-colors">Features</a>
                 <a href="/configure" class="hover:text-sky-400 transition-colors">Configure</a>
+                <a href="/history" class="hover:text-sky-400 transition-colors">History</a>
                 <a href="#nzbcheck" class="hover:text-sky-400 transition-colors">NZBCheck</a>
                 <a href="https://github.com/mkcfdc/usenetstreamer" target="_blank" class="hover:text-white transition-colors">GitHub</a>
               </div>
@@ -0,0 +1,82 @@
+// routes/api/filter_rules.ts
+import { define } from "../../utils.ts";
+import { Context } from "fresh";
+import type { State } from "../../utils.ts";
+import { getAllFilterRules, addFilterRule } from "../../utils/sqlite.ts";
+
+const RULE_TYPES = ["exclude_source", "require_language", "block_group", "max_size", "title_regex"];
+
+// Mirrors the backend compiler in utils/filterRules.ts so bad rules are rejected before saving
+function validateRule(type: string, value: string): string | null {
+    if (!RULE_TYPES.includes(type)) return `Unknown rule type. Use one of: ${RULE_TYPES.join(", ")}`;
+
+    if (type === "title_regex") {
+        try {
+            new RegExp(value, "i");
+        } catch (e) {
+            return `Invalid regex: ${e instanceof Error ? e.message : String(e)}`;
+        }
+    }
+
+    if (type === "max_size") {
+        for (const part of value.split(",")) {
+            const [res, gb] = part.split(":").map((p) => p.trim());
+            if (!res || !(Number(gb) > 0)) return `Invalid size cap "${part.trim()}" (expected RESOLUTION:GB)`;
+        }
+    }
+
+    return null;
+}
+
+export const handler = define.handlers({
+    // GET /api/filter_rules - Fetch all filter rules
+    GET(_ctx: Context<State>) {
+        try {
+            const rules = getAllFilterRules();
+            return new Response(JSON.stringify(rules), {
+                headers: { "Content-Type": "application/json" },
+            });
+        } catch (error) {
+            console.error("Error fetching filter rules:", error);
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            return new Response(JSON.stringify({ message: errorMessage || "Failed to fetch filter rules" }), {
+                status: 500,
+                headers: { "Content-Type": "application/json" },
+            });
+        }
+    },
+
+    // POST /api/filter_rules - Add a new filter rule
+    async POST(ctx: Context<State>) {
+        try {
+            const { name, type, value } = await ctx.req.json();
+            if (!name || !type || !value) {
+                return new Response(JSON.stringify({ message: "Name, Type, and Value are required." }), {
+                    status: 400,
+                    headers: { "Content-Type": "application/json" },
+                });
+            }
+
+            const invalid = validateRule(type, value);
+            if (invalid) {
+                return new Response(JSON.stringify({ message: invalid }), {
+                    status: 400,
+                    headers: { "Content-Type": "application/json" },
+                });
+            }
+
+            addFilterRule(name, type, value);
+            return new Response(JSON.stringify({ message: "Filter rule added successfully." }), {
+                status: 201,
+                headers: { "Content-Type": "application/json" },
+            });
+        } catch (error) {
+            console.error("Error adding filter rule:", error);
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            return new Response(JSON.stringify({ message: errorMessage || "Failed to add filter rule" }), {
+                status: 500,
+                headers: { "Content-Type": "application/json" },
+            });
+        }
+    },
+});
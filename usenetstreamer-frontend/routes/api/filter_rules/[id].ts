@@ -0,0 +1,33 @@
+// routes/api/filter_rules/[id].ts
+import { define } from "../../../utils.ts";
+import { Context } from "fresh/server";
+import { removeFilterRule } from "../../../utils/sqlite.ts";
+
+export const handler = define.handlers<unknown, unknown>({
+    // DELETE /api/filter_rules/:id - Remove a filter rule
+    DELETE(ctx: Context<unknown, unknown>) {
+        try {
+            const id = parseInt(ctx.params.id);
+
+            if (isNaN(id)) {
+                return new Response(JSON.stringify({ message: "Invalid filter rule ID." }), {
+                    status: 400,
+                    headers: { "Content-Type": "application/json" },
+                });
+            }
+
+            removeFilterRule(id);
+            return new Response(JSON.stringify({ message: "Filter rule removed successfully." }), {
+                status: 200,
+                headers: { "Content-Type": "application/json" },
+            });
+        } catch (error) {
+            console.error("Error removing filter rule:", error);
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            return new Response(JSON.stringify({ message: errorMessage || "Failed to remove filter rule" }), {
+                status: 500,
+                headers: { "Content-Type": "application/json" },
+            });
+        }
+    },
+});
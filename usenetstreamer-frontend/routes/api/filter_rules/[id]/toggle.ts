@@ -0,0 +1,40 @@
+import { define } from "../../../../utils.ts";
+import { Context } from "fresh/server";
+import { toggleFilterRule } from "../../../../utils/sqlite.ts";
+
+export const handler = define.handlers<unknown, unknown>({
+    async PATCH(ctx: Context<unknown, unknown>) {
+        try {
+            const id = parseInt(ctx.params.id);
+
+            if (isNaN(id)) {
+                return new Response(JSON.stringify({ message: "Invalid filter rule ID." }), {
+                    status: 400,
+                    headers: { "Content-Type": "application/json" },
+                });
+            }
+
+            const { enabled } = await ctx.req.json(); // Expect { enabled: boolean } in body
+
+            if (typeof enabled !== 'boolean') {
+                return new Response(JSON.stringify({ message: "Invalid 'enabled' status. Must be boolean." }), {
+                    status: 400,
+                    headers: { "Content-Type": "application/json" },
+                });
+            }
+
+            toggleFilterRule(id, enabled);
+            return new Response(JSON.stringify({ message: "Filter rule status toggled successfully." }), {
+                status: 200,
+                headers: { "Content-Type": "application/json" },
+            });
+        } catch (error) {
+            console.error("Error toggling filter rule:", error);
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            return new Response(JSON.stringify({ message: errorMessage || "Failed to toggle filter rule" }), {
+                status: 500,
+                headers: { "Content-Type": "application/json" },
+            });
+        }
+    },
+});
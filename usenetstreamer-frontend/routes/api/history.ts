@@ -0,0 +1,24 @@
+// routes/api/history.ts
+import { define } from "../../utils.ts";
+import { Context } from "fresh";
+import type { State } from "../../utils.ts";
+import { getWatchHistory } from "../../utils/sqlite.ts";
+
+export const handler = define.handlers({
+    // GET /api/history - Recent plays of every API key, newest first
+    GET(_ctx: Context<State>) {
+        try {
+            const history = getWatchHistory();
+            return new Response(JSON.stringify(history), {
+                headers: { "Content-Type": "application/json" },
+            });
+        } catch (error) {
+            console.error("Error fetching watch history:", error);
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            return new Response(JSON.stringify({ message: errorMessage || "Failed to fetch watch history" }), {
+                status: 500,
+                headers: { "Content-Type": "application/json" },
+            });
+        }
+    },
+});
@@ -2,13 +2,14 @@
 import { define } from "../../utils.ts"; // Adjust path if necessary
 import { Context } from "fresh";
 import type { State } from "../../utils.ts";
-import { getAllIndexers, addIndexer, removeIndexer, toggleIndexer } from "../../utils/sqlite.ts";
+import { getAllIndexers, addIndexer, removeIndexer, toggleIndexer, getAllIndexerHealth, setIndexerCaps } from "../../utils/sqlite.ts";
 
 export const handler = define.handlers({
     // GET /api/indexers - Fetch all indexers
     GET(_ctx: Context<State>) {
         try {
-            const indexers = getAllIndexers();
+            const health = new Map(getAllIndexerHealth().map((h) => [h.indexer_id, h]));
+            const indexers = getAllIndexers().map((idx) => ({ ...idx, health: health.get(idx.id) ?? null }));
             return new Response(JSON.stringify(indexers), {
                 headers: { "Content-Type": "application/json" },
             });
@@ -33,7 +34,20 @@ export const handler = define.handlers({
                 });
             }
 
-            addIndexer(name, url, api_key);
+            const id = addIndexer(name, url, api_key);
+
+            // Caps tell the addon which ids and categories this indexer searches by.
+            // Failing here is fine, the addon reads them itself on the next search.
+            try {
+                const capsRes = await fetch(`${url.replace(/\/+$/, "")}/api?t=caps&apikey=${encodeURIComponent(api_key)}`, {
+                    signal: AbortSignal.timeout(10000),
+                });
+                const capsXml = await capsRes.text();
+                if (capsRes.ok && capsXml.includes("<caps")) setIndexerCaps(id, capsXml);
+            } catch (error) {
+                console.error("Error reading indexer caps:", error);
+            }
+
             return new Response(JSON.stringify({ message: "Indexer added successfully." }), {
                 status: 201,
                 headers: { "Content-Type": "application/json" },
@@ -1,13 +1,14 @@
 // routes/api/nntp.ts
 import { define } from "../../utils.ts";
 import { Context } from "fresh/server";
-import { getAllNntpServers, addNntpServer, removeNntpServer, toggleNntpServer } from "../../utils/sqlite.ts";
+import { getAllNntpServers, getAllNntpServerHealth, addNntpServer, removeNntpServer, toggleNntpServer } from "../../utils/sqlite.ts";
 
 export const handler = define.handlers<unknown, unknown>({
     // GET /api/nntp
     GET(_ctx: Context<unknown, unknown>) {
         try {
-            const servers = getAllNntpServers();
+            const health = new Map(getAllNntpServerHealth().map((h) => [h.server_id, h]));
+            const servers = getAllNntpServers().map((server) => ({ ...server, health: health.get(server.id) ?? null }));
             return new Response(JSON.stringify(servers), {
                 headers: { "Content-Type": "application/json" },
             });
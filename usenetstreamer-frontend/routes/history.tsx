@@ -0,0 +1,19 @@
+import { define } from "../utils.ts";
+import WatchHistory from "../islands/WatchHistory.tsx";
+
+export default define.page(function HistoryPage() {
+    return (
+        <>
+            <div class="min-h-screen flex flex-col items-center bg-slate-950 py-16">
+                <div class="w-full max-w-4xl mx-auto px-6">
+                    <h1 class="text-4xl font-extrabold tracking-tight text-white sm:text-5xl text-center mb-12">
+                        <span class="bg-gradient-to-r from-sky-400 via-cyan-400 to-teal-400 bg-clip-text text-transparent">
+                            Watch History
+                        </span>
+                    </h1>
+                    <WatchHistory />
+                </div>
+            </div>
+        </>
+    );
+});
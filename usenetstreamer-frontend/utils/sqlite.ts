@@ -43,6 +43,11 @@ export function getDb(): DatabaseSync {
     ) STRICT
   `);
 
+    // The addon adds the same column when it starts, whichever app runs first wins
+    const indexerColumns = (db.prepare("PRAGMA table_info(indexers)").all() as { name: string }[]).map((c) => c.name);
+    if (!indexerColumns.includes("caps_xml")) db.exec("ALTER TABLE indexers ADD COLUMN caps_xml TEXT");
+    if (!indexerColumns.includes("caps_fetched_at")) db.exec("ALTER TABLE indexers ADD COLUMN caps_fetched_at INTEGER DEFAULT 0");
+
     db.exec(`
     CREATE TABLE IF NOT EXISTS settings (
       key TEXT PRIMARY KEY,
@@ -77,6 +82,63 @@ export function getDb(): DatabaseSync {
     );
 `);
 
+    db.exec(`
+    CREATE TABLE IF NOT EXISTS filter_rules (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL,
+      type TEXT NOT NULL,
+      value TEXT NOT NULL,
+      enabled INTEGER DEFAULT 1
+    ) STRICT;
+`);
+
+    // Written by the addon's search path, read here for the indexer list
+    db.exec(`
+    CREATE TABLE IF NOT EXISTS indexer_health (
+      indexer_id INTEGER PRIMARY KEY,
+      samples TEXT NOT NULL DEFAULT '[]',
+      p50_ms INTEGER,
+      p95_ms INTEGER,
+      error_rate REAL DEFAULT 0,
+      consecutive_failures INTEGER DEFAULT 0,
+      api_limit_hits INTEGER DEFAULT 0,
+      last_success_at INTEGER,
+      last_failure_at INTEGER,
+      last_failure_reason TEXT,
+      circuit_open_until INTEGER DEFAULT 0
+    ) STRICT;
+
+    CREATE TABLE IF NOT EXISTS nntp_server_health (
+      server_id INTEGER PRIMARY KEY,
+      status TEXT NOT NULL DEFAULT 'unknown',
+      latency_ms INTEGER,
+      retention_days INTEGER,
+      consecutive_failures INTEGER DEFAULT 0,
+      last_error TEXT,
+      last_success_at INTEGER,
+      checked_at INTEGER
+    ) STRICT;
+
+    CREATE TABLE IF NOT EXISTS watch_history (
+      api_key_id INTEGER NOT NULL,
+      stream_key TEXT NOT NULL,
+      video_id TEXT NOT NULL,
+      imdb_id TEXT NOT NULL,
+      type TEXT NOT NULL,
+      season INTEGER,
+      episode INTEGER,
+      title TEXT NOT NULL,
+      release_title TEXT NOT NULL,
+      release_json TEXT NOT NULL,
+      bytes_served INTEGER NOT NULL DEFAULT 0,
+      position_bytes INTEGER NOT NULL DEFAULT 0,
+      total_bytes INTEGER,
+      started_at INTEGER NOT NULL,
+      last_played_at INTEGER NOT NULL,
+      PRIMARY KEY (api_key_id, stream_key)
+    ) STRICT;
+`);
+
     dbInstance = db;
     return db;
 }
@@ -156,15 +218,46 @@ export const getAllIndexers = (): Indexer[] => {
     return stmt.all() as unknown as Indexer[];
 };
 
-export const addIndexer = (name: string, url: string, apiKey: string) => {
+export const addIndexer = (name: string, url: string, apiKey: string): number => {
     const cleanUrl = url.replace(/\/$/, "");
     const stmt = getDb().prepare("INSERT INTO indexers (name, url, api_key) VALUES (?, ?, ?)");
-    stmt.run(name, cleanUrl, apiKey);
+    return Number(stmt.run(name, cleanUrl, apiKey).lastInsertRowid);
+};
+
+/**
+ * Stores the raw t=caps response, the addon parses it into search types and categories.
+ */
+export const setIndexerCaps = (id: number, capsXml: string) => {
+    const stmt = getDb().prepare("UPDATE indexers SET caps_xml = ?, caps_fetched_at = ? WHERE id = ?");
+    stmt.run(capsXml, Date.now(), id);
 };
 
 export const removeIndexer = (id: number) => {
     const stmt = getDb().prepare("DELETE FROM indexers WHERE id = ?");
     stmt.run(id);
+    getDb().prepare("DELETE FROM indexer_health WHERE indexer_id = ?").run(id);
+};
+
+export interface IndexerHealth {
+    indexer_id: number;
+    p50_ms: number | null;
+    p95_ms: number | null;
+    error_rate: number;
+    consecutive_failures: number;
+    api_limit_hits: number;
+    last_success_at: number | null;
+    last_failure_at: number | null;
+    last_failure_reason: string | null;
+    circuit_open_until: number;
+}
+
+export const getAllIndexerHealth = (): IndexerHealth[] => {
+    const stmt = getDb().prepare(`
+        SELECT indexer_id, p50_ms, p95_ms, error_rate, consecutive_failures, api_limit_hits,
+               last_success_at, last_failure_at, last_failure_reason, circuit_open_until
+        FROM indexer_health
+    `);
+    return stmt.all() as unknown as IndexerHealth[];
 };
 
 export const toggleIndexer = (id: number, enabled: boolean) => {
@@ -218,9 +311,83 @@ export const addNntpServer = (server: Omit<NntpServer, 'id' | 'active' | 'create
 export const removeNntpServer = (id: number) => {
     const stmt = getDb().prepare("DELETE FROM nntp_servers WHERE id = ?");
     stmt.run(id);
+    getDb().prepare("DELETE FROM nntp_server_health WHERE server_id = ?").run(id);
+};
+
+// Written by the addon's background prober
+export interface NntpServerHealth {
+    server_id: number;
+    status: "unknown" | "ok" | "auth_failed" | "unreachable" | "error";
+    latency_ms: number | null;
+    retention_days: number | null;
+    consecutive_failures: number;
+    last_error: string | null;
+    last_success_at: number | null;
+    checked_at: number | null;
+}
+
+export const getAllNntpServerHealth = (): NntpServerHealth[] => {
+    const stmt = getDb().prepare("SELECT * FROM nntp_server_health");
+    return stmt.all() as unknown as NntpServerHealth[];
 };
 
 export const toggleNntpServer = (id: number, active: boolean) => {
     const stmt = getDb().prepare("UPDATE nntp_servers SET active = ? WHERE id = ?");
     stmt.run(active ? 1 : 0, id);
-};
\ No newline at end of file
+};
+
+export interface FilterRule {
+    id: number;
+    name: string;
+    type: string;
+    value: string;
+    enabled: number; // 0 or 1
+}
+
+export const getAllFilterRules = (): FilterRule[] => {
+    const stmt = getDb().prepare("SELECT * FROM filter_rules ORDER BY id ASC");
+    return stmt.all() as unknown as FilterRule[];
+};
+
+export const addFilterRule = (name: string, type: string, value: string) => {
+    const stmt = getDb().prepare("INSERT INTO filter_rules (name, type, value) VALUES (?, ?, ?)");
+    stmt.run(name, type, value);
+};
+
+export const removeFilterRule = (id: number) => {
+    const stmt = getDb().prepare("DELETE FROM filter_rules WHERE id = ?");
+    stmt.run(id);
+};
+
+export const toggleFilterRule = (id: number, enabled: boolean) => {
+    const stmt = getDb().prepare("UPDATE filter_rules SET enabled = ? WHERE id = ?");
+    stmt.run(enabled ? 1 : 0, id);
+};
+
+// Written by the addon's stream route. release_json holds the indexer download URL and is never read here
+export interface WatchEntry {
+    api_key_id: number; // 0 for the master secret
+    video_id: string;
+    imdb_id: string;
+    type: "movie" | "series";
+    season: number | null;
+    episode: number | null;
+    title: string;
+    release_title: string;
+    bytes_served: number;
+    position_bytes: number;
+    total_bytes: number | null;
+    started_at: number;
+    last_played_at: number;
+}
+
+export const getWatchHistory = (limit = 200): WatchEntry[] => {
+    const stmt = getDb().prepare(`
+        SELECT api_key_id, video_id, imdb_id, type, season, episode, title, release_title,
+               bytes_served, position_bytes, total_bytes, started_at, last_played_at
+        FROM watch_history
+        ORDER BY last_played_at DESC
+        LIMIT ?
+    `);
+    return stmt.all(limit) as unknown as WatchEntry[];
+};
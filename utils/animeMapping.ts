@@ -0,0 +1,137 @@
+import { fetcher } from "./fetcher.ts";
+import { getAnimeMapping, replaceAnimeMappings, type AnimeMapping } from "./sqlite.ts";
+import type { EpisodeInfo } from "./parseRequestedEpisode.ts";
+
+// ═══════════════════════════════════════════════════════════════════
+// Types & Constants
+// ═══════════════════════════════════════════════════════════════════
+
+export const ANIME_ID_PREFIXES = ["kitsu:", "mal:"];
+
+// Community maintained cross-reference of anime ids (Kitsu, MAL, AniList, TVDB, IMDb...)
+export const ANIME_LIST_URL = "https://raw.githubusercontent.com/Fribb/anime-lists/master/anime-list-full.json";
+// AniDB to TVDB season and episode offset, the list above only carries the season
+export const ANIME_OFFSETS_URL = "https://raw.githubusercontent.com/Anime-Lists/anime-lists/master/anime-list-master.xml";
+
+interface RawAnimeListEntry {
+    kitsu_id?: number;
+    mal_id?: number;
+    anidb_id?: number;
+    imdb_id?: string;
+    thetvdb_id?: number;
+    season?: { tvdb?: number };
+}
+
+interface TvdbPlacement {
+    season: number;
+    offset: number;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Lookup
+// ═══════════════════════════════════════════════════════════════════
+
+export function isAnimeId(id: string): boolean {
+    return ANIME_ID_PREFIXES.some((prefix) => id.startsWith(prefix));
+}
+
+/**
+ * Maps `kitsu:<id>[:<episode>]` or `mal:<id>[:<episode>]` to the IMDb show and its TVDB numbering.
+ * Kitsu/MAL number episodes per entry, which is also what fansub releases use, so the raw
+ * number is kept as the absolute episode and shifted by the entry's offset for the TVDB one. Only the local mapping table is read, never an API.
+ */
+export function resolveAnimeEpisode(type: string, id: string): EpisodeInfo | undefined {
+    const [source, rawId, rawEpisode] = id.split(":");
+    const sourceId = parseInt(rawId, 10);
+    if ((source !== "kitsu" && source !== "mal") || !Number.isFinite(sourceId)) return undefined;
+
+    const mapping = getAnimeMapping(source, sourceId);
+    if (!mapping?.imdb_id) return undefined;
+
+    const episode = parseInt(rawEpisode, 10);
+    if (type !== "series" || !Number.isFinite(episode)) return { imdbid: mapping.imdb_id };
+
+    return {
+        imdbid: mapping.imdb_id,
+        season: mapping.tvdb_season,
+        episode: episode + mapping.episode_offset,
+        absoluteEpisode: episode,
+    };
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Import
+// ═══════════════════════════════════════════════════════════════════
+
+function normalizeImdbId(raw?: string): string | null {
+    if (!raw) return null;
+    const first = raw.split(",")[0].trim();
+    return /^tt\d+$/.test(first) ? first : null;
+}
+
+/**
+ * Reads `<anime anidbid="…" defaulttvdbseason="2" episodeoffset="12">` entries. Entries in
+ * TVDB absolute order ("a") or specials carry no usable season, they are left out.
+ */
+function parseTvdbPlacements(xml: string): Map<number, TvdbPlacement> {
+    const placements = new Map<number, TvdbPlacement>();
+    const attr = (tag: string, name: string) => tag.match(new RegExp(`\\b${name}="([^"]*)"`))?.[1];
+
+    for (const [, tag] of xml.matchAll(/<anime\s([^>]*)>/g)) {
+        const anidbId = Number(attr(tag, "anidbid"));
+        const season = Number(attr(tag, "defaulttvdbseason"));
+        if (!Number.isInteger(anidbId) || !Number.isInteger(season) || season < 1) continue;
+
+        const offset = Number(attr(tag, "episodeoffset") ?? 0);
+        placements.set(anidbId, { season, offset: Number.isInteger(offset) ? offset : 0 });
+    }
+    return placements;
+}
+
+async function fetchTvdbPlacements(url: string): Promise<Map<number, TvdbPlacement>> {
+    try {
+        const res = await fetcher<Response>(url, { timeoutMs: 60000, parseJson: false });
+        return parseTvdbPlacements(await res.text());
+    } catch (err) {
+        // Without offsets every entry searches its own episode number in the TVDB season
+        console.warn("[Anime] Episode offsets unavailable:", err instanceof Error ? err.message : err);
+        return new Map();
+    }
+}
+
+/**
+ * Downloads the anime id list and replaces the local mapping table. Run from the CLI,
+ * lookups keep working offline from the last import.
+ */
+export async function importAnimeMappings(
+    url: string = ANIME_LIST_URL,
+    offsetsUrl: string = ANIME_OFFSETS_URL,
+): Promise<number> {
+    const [entries, placements] = await Promise.all([
+        fetcher<RawAnimeListEntry[]>(url, { timeoutMs: 60000 }),
+        fetchTvdbPlacements(offsetsUrl),
+    ]);
+    if (!Array.isArray(entries)) throw new Error("Anime list is not a JSON array");
+
+    const mappings: AnimeMapping[] = [];
+    for (const entry of entries) {
+        if (!entry.kitsu_id && !entry.mal_id) continue;
+
+        // Metadata and searches go through Cinemeta, which only knows IMDb ids
+        const imdbId = normalizeImdbId(entry.imdb_id);
+        if (!imdbId) continue;
+
+        const placement = entry.anidb_id ? placements.get(entry.anidb_id) : undefined;
+        mappings.push({
+            kitsu_id: entry.kitsu_id ?? null,
+            mal_id: entry.mal_id ?? null,
+            imdb_id: imdbId,
+            tvdb_id: entry.thetvdb_id ?? null,
+            tvdb_season: placement?.season ?? (entry.season?.tvdb && entry.season.tvdb > 0 ? entry.season.tvdb : 1),
+            episode_offset: placement?.offset ?? 0,
+        });
+    }
+
+    replaceAnimeMappings(mappings);
+    return mappings.length;
+}
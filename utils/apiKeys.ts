@@ -0,0 +1,88 @@
+import { encodeHex } from "@std/encoding/hex";
+import { Config } from "../env.ts";
+import { getApiKeyById, getApiKeyByKey, touchApiKey, type ApiKey } from "./sqlite.ts";
+import { decodeUserConfig, type UserConfig } from "./userConfig.ts";
+
+// ═══════════════════════════════════════════════════════════════════
+// Types & Constants
+// ═══════════════════════════════════════════════════════════════════
+
+export interface ApiKeyPrincipal {
+    id: number; // 0 for the master secret
+    label: string;
+    maxConcurrentStreams: number; // 0 = unlimited
+    dailyGrabQuota: number; // 0 = unlimited
+}
+
+export interface AddonAuth {
+    principal: ApiKeyPrincipal;
+    config: UserConfig;
+}
+
+export const MASTER_PRINCIPAL: ApiKeyPrincipal = {
+    id: 0,
+    label: "master",
+    maxConcurrentStreams: 0,
+    dailyGrabQuota: 0,
+};
+
+const KEY_BYTES = 16;
+const TOUCH_INTERVAL_MS = 60_000;
+
+const lastTouched = new Map<number, number>();
+
+// ═══════════════════════════════════════════════════════════════════
+// Keys
+// ═══════════════════════════════════════════════════════════════════
+
+export function generateApiKey(): string {
+    return encodeHex(crypto.getRandomValues(new Uint8Array(KEY_BYTES)));
+}
+
+/**
+ * Revocation takes effect on the next request because the row is read every time;
+ * only last_used_at writes are throttled.
+ */
+function toPrincipal(row: ApiKey | undefined): ApiKeyPrincipal | null {
+    if (!row || row.revoked) return null;
+
+    const now = Date.now();
+    if (now - (lastTouched.get(row.id) ?? 0) > TOUCH_INTERVAL_MS) {
+        lastTouched.set(row.id, now);
+        touchApiKey(row.id, now);
+    }
+
+    return {
+        id: row.id,
+        label: row.label,
+        maxConcurrentStreams: row.max_concurrent_streams,
+        dailyGrabQuota: row.daily_grab_quota,
+    };
+}
+
+/**
+ * Resolves a URL key to a principal.
+ */
+export function resolveApiKey(key: string | undefined): ApiKeyPrincipal | null {
+    if (!key) return null;
+    if (key === Config.ADDON_SHARED_SECRET) return MASTER_PRINCIPAL;
+    return toPrincipal(getApiKeyByKey(key));
+}
+
+/**
+ * Resolves the first path segment of an addon URL.
+ * The shared secret or an API key yields an empty config. A signed config carries
+ * the principal of the key it was minted for, with that key's quotas and revocation.
+ */
+export async function resolveAddonKey(apiKey: string | undefined): Promise<AddonAuth | null> {
+    if (!apiKey) return null;
+
+    const principal = resolveApiKey(apiKey);
+    if (principal) return { principal, config: {} };
+
+    const signed = await decodeUserConfig(apiKey);
+    if (!signed) return null;
+
+    const bound = signed.keyId === 0 ? MASTER_PRINCIPAL : toPrincipal(getApiKeyById(signed.keyId));
+    return bound ? { principal: bound, config: signed.config } : null;
+}
@@ -0,0 +1,125 @@
+import { redis } from "./redis.ts";
+import { checkNzb, type NzbCheckItem } from "../lib/nzbcheck.ts";
+import { getSearchCacheKey, parseRequestedEpisode } from "./parseRequestedEpisode.ts";
+import { extractGuidFromUrl, getStreamHash, parseRedisJson, parseRedisJsonScalar } from "./streamHelpers.ts";
+import type { SearchResult, StremioMeta } from "./getMediaAndSearchResults.ts";
+
+// ═══════════════════════════════════════════════════════════════════
+// Types & Constants
+// ═══════════════════════════════════════════════════════════════════
+
+export type Availability = "cached" | "complete";
+
+const CACHED_MARK = "⚡";
+const COMPLETE_MARK = "✅";
+
+// Only the top results per episode are checked, a season can hold thousands of releases
+const MAX_RESULTS_PER_EPISODE = 10;
+
+// ═══════════════════════════════════════════════════════════════════
+// Lookup
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * Availability per video id, built only from what previous stream requests left in redis.
+ * Episodes nobody searched yet are absent: we never hit the indexers from a meta request.
+ *  - cached:   a release already has a NZBDav view path (plays instantly)
+ *  - complete: NZBCheck reports a complete release
+ * `indexers` is the install's indexer subset, its searches are cached under their own keys.
+ */
+export async function getEpisodeAvailability(meta: StremioMeta, indexers?: string[]): Promise<Map<string, Availability>> {
+    const out = new Map<string, Availability>();
+    const now = Date.now();
+
+    const videoIds: string[] = [];
+    const searchKeys: string[] = [];
+
+    for (const video of meta.videos ?? []) {
+        if (video.released && Date.parse(video.released) > now) continue;
+
+        const ep = parseRequestedEpisode("series", video.id);
+        if (!ep?.season || !ep.episode) continue;
+
+        videoIds.push(video.id);
+        searchKeys.push(getSearchCacheKey(ep, indexers));
+    }
+
+    if (searchKeys.length === 0) return out;
+
+    const raw = await redis.call("JSON.MGET", ...searchKeys, "$") as (string | null)[];
+
+    // Flatten the top results of every searched episode so redis and NZBCheck get one batch each
+    const owners: string[] = [];
+    const results: SearchResult[] = [];
+
+    for (let i = 0; i < videoIds.length; i++) {
+        const cached = parseRedisJson<SearchResult[]>(raw[i]);
+        if (!cached?.length) continue;
+
+        const top = cached.slice(0, MAX_RESULTS_PER_EPISODE);
+        for (let j = 0; j < top.length; j++) {
+            owners.push(videoIds[i]);
+            results.push(top[j]);
+        }
+    }
+
+    if (results.length === 0) return out;
+
+    const pipeline = redis.pipeline();
+    for (let i = 0; i < results.length; i++) {
+        pipeline.call("JSON.GET", `streams:${getStreamHash(results[i], owners[i])}`, "$.viewPath");
+    }
+    const viewPaths = await pipeline.exec();
+
+    const items: NzbCheckItem[] = [];
+    const itemOwners: string[] = [];
+
+    for (let i = 0; i < results.length; i++) {
+        if (parseRedisJsonScalar(viewPaths?.[i]?.[1])) {
+            out.set(owners[i], "cached");
+            continue;
+        }
+
+        const r = results[i];
+        if (r.indexer && r.guid && !out.has(owners[i])) {
+            items.push({ source_indexer: r.indexer, file_id: extractGuidFromUrl(r.guid, r.provider) });
+            itemOwners.push(owners[i]);
+        }
+    }
+
+    if (items.length === 0) return out;
+
+    const { data } = await checkNzb(items);
+    for (let i = 0; i < items.length; i++) {
+        const owner = itemOwners[i];
+        if (out.has(owner)) continue;
+
+        const status = data[`${items[i].source_indexer.toLowerCase()}:${items[i].file_id}`];
+        if (status?.is_complete === true) out.set(owner, "complete");
+    }
+
+    return out;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Annotation
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * Prefixes episode titles so the Stremio episode picker shows what will play.
+ */
+export function annotateVideos(meta: StremioMeta, availability: Map<string, Availability>): StremioMeta {
+    if (!meta.videos || availability.size === 0) return meta;
+
+    return {
+        ...meta,
+        videos: meta.videos.map((video) => {
+            const state = availability.get(video.id);
+            if (!state) return video;
+
+            const mark = state === "cached" ? CACHED_MARK : COMPLETE_MARK;
+            const label = video.title ?? video.name ?? `Episode ${video.episode ?? ""}`.trim();
+            return { ...video, title: `${mark} ${label}` };
+        }),
+    };
+}
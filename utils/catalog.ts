@@ -0,0 +1,213 @@
+import { filenameParse } from "@ctrl/video-filename-parser";
+import { Config } from "../env.ts";
+import { fetchRecent, type NzbResult } from "../lib/nzbnab.ts";
+import { getCinemetaData, searchCinemeta } from "../lib/cinemeta.ts";
+import { redis } from "./redis.ts";
+
+// ═══════════════════════════════════════════════════════════════════
+// Types & Constants
+// ═══════════════════════════════════════════════════════════════════
+
+export interface CatalogMeta {
+    id: string;
+    type: "movie" | "series";
+    name: string;
+    poster?: string;
+    genres?: string[];
+    releaseInfo?: string;
+}
+
+interface CatalogEntry extends CatalogMeta {
+    lastSeen: number; // newest publish date (ms) of any release mapped to this title
+}
+
+export const CATALOG_ID = "usenet-recent";
+export const CATALOG_PAGE_SIZE = 100;
+
+export const CATALOG_GENRES = [
+    "Action", "Adventure", "Animation", "Biography", "Comedy", "Crime",
+    "Documentary", "Drama", "Family", "Fantasy", "History", "Horror",
+    "Mystery", "Romance", "Sci-Fi", "Sport", "Thriller", "War", "Western",
+];
+
+const CATALOG_TYPES = ["movie", "series"] as const;
+const CATALOG_MAX_ITEMS = 500;
+const RECENT_PER_INDEXER = 100;
+const MAP_CACHE_TTL = 604800; // 7 days, misses included so unknown titles are not retried every pull
+const MAX_LOOKUPS_PER_REFRESH = 150;
+const LOOKUP_CONCURRENCY = 5;
+const FIRST_REFRESH_DELAY_MS = 15_000;
+
+// ═══════════════════════════════════════════════════════════════════
+// Release -> Meta Mapping
+// ═══════════════════════════════════════════════════════════════════
+
+function mapCacheKey(type: string, title: string, year?: string): string {
+    return `catalog:map:${type}:${title.toLowerCase().replace(/[^a-z0-9]+/g, "")}:${year ?? ""}`;
+}
+
+/**
+ * Resolves a release to a catalog meta. Indexer-provided IMDb ids are trusted,
+ * otherwise the parsed title/year is searched on Cinemeta.
+ */
+async function resolveMeta(type: "movie" | "series", release: NzbResult, cacheKey: string): Promise<CatalogMeta | null> {
+    let imdbId = release.imdbId;
+
+    if (!imdbId) {
+        const parsed = filenameParse(release.title, type === "series");
+        if (!parsed.title) return null;
+        imdbId = await searchCinemeta(type, parsed.title, parsed.year ?? undefined) ?? undefined;
+    }
+
+    let meta: CatalogMeta | null = null;
+
+    if (imdbId) {
+        try {
+            const data = await getCinemetaData(type, imdbId);
+            meta = {
+                id: data.imdbId || imdbId,
+                type,
+                name: data.name,
+                poster: data.poster,
+                genres: Array.isArray(data.genres) ? data.genres : undefined,
+                releaseInfo: data.year ? String(data.year) : undefined,
+            };
+        } catch {
+            // Logged by getCinemetaData, cache the miss below
+        }
+    }
+
+    await redis.set(cacheKey, meta ? JSON.stringify(meta) : "", "EX", MAP_CACHE_TTL);
+    return meta;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Refresh
+// ═══════════════════════════════════════════════════════════════════
+
+async function readCatalog(type: string): Promise<CatalogEntry[]> {
+    try {
+        const raw = await redis.call("JSON.GET", `catalog:${type}`, "$") as string | null;
+        const parsed = raw ? JSON.parse(raw) : null;
+        return Array.isArray(parsed?.[0]) ? parsed[0] : [];
+    } catch {
+        return [];
+    }
+}
+
+async function refreshCatalog(type: "movie" | "series"): Promise<void> {
+    const releases = await fetchRecent(type, RECENT_PER_INDEXER);
+    if (releases.length === 0) return;
+
+    // Collapse releases of the same title (different qualities/groups) before any lookups
+    const byKey = new Map<string, { release: NzbResult; lastSeen: number }>();
+    for (const release of releases) {
+        const parsed = filenameParse(release.title, type === "series");
+        if (!parsed.title) continue;
+
+        const key = mapCacheKey(type, parsed.title, parsed.year ?? undefined);
+        const lastSeen = new Date(release.publishDate).getTime() || 0;
+        const existing = byKey.get(key);
+        if (!existing || lastSeen > existing.lastSeen) byKey.set(key, { release, lastSeen });
+    }
+
+    const keys = [...byKey.keys()];
+    const cached = keys.length ? await redis.mget(...keys) : [];
+
+    const fresh: CatalogEntry[] = [];
+    const lookups: string[] = [];
+
+    for (let i = 0; i < keys.length; i++) {
+        const hit = cached[i];
+        if (hit === null) {
+            lookups.push(keys[i]);
+        } else if (hit) {
+            fresh.push({ ...JSON.parse(hit) as CatalogMeta, lastSeen: byKey.get(keys[i])!.lastSeen });
+        }
+    }
+
+    // Bounded lookups per pull, the remainder is picked up next time
+    const pending = lookups.slice(0, MAX_LOOKUPS_PER_REFRESH);
+    for (let i = 0; i < pending.length; i += LOOKUP_CONCURRENCY) {
+        const batch = pending.slice(i, i + LOOKUP_CONCURRENCY);
+        const metas = await Promise.all(batch.map((key) => resolveMeta(type, byKey.get(key)!.release, key)));
+        for (let j = 0; j < batch.length; j++) {
+            const meta = metas[j];
+            if (meta) fresh.push({ ...meta, lastSeen: byKey.get(batch[j])!.lastSeen });
+        }
+    }
+
+    // Merge with the previous catalog so titles stay listed after they drop out of the RSS window
+    const merged = new Map<string, CatalogEntry>();
+    for (const entry of [...fresh, ...await readCatalog(type)]) {
+        const existing = merged.get(entry.id);
+        if (!existing || entry.lastSeen > existing.lastSeen) merged.set(entry.id, entry);
+    }
+
+    const catalog = [...merged.values()]
+        .sort((a, b) => b.lastSeen - a.lastSeen)
+        .slice(0, CATALOG_MAX_ITEMS);
+
+    await redis.call("JSON.SET", `catalog:${type}`, "$", JSON.stringify(catalog));
+    console.log(`[Catalog] ${type}: ${catalog.length} titles (${fresh.length} from ${releases.length} releases, ${lookups.length - pending.length} lookups deferred)`);
+}
+
+async function refreshAll(): Promise<void> {
+    const intervalSec = Config.CATALOG_REFRESH_MINUTES * 60;
+
+    // One pull per interval across every instance sharing this redis
+    const gotLock = await redis.set("catalog:refresh:lock", "1", "EX", Math.max(60, intervalSec - 30), "NX") === "OK";
+    if (!gotLock) return;
+
+    for (const type of CATALOG_TYPES) {
+        try {
+            await refreshCatalog(type);
+        } catch (err) {
+            console.error(`[Catalog] Refresh failed for ${type}:`, err instanceof Error ? err.message : err);
+        }
+    }
+}
+
+/**
+ * Schedules periodic indexer pulls. No-op when catalogs are disabled.
+ */
+export function startCatalogRefresher(): void {
+    if (!Config.CATALOG_ENABLED) return;
+
+    const intervalMs = Config.CATALOG_REFRESH_MINUTES * 60_000;
+    let running = false;
+
+    const tick = async () => {
+        if (running) return;
+        running = true;
+        try {
+            await refreshAll();
+        } catch (err) {
+            console.error("[Catalog] Refresh error:", err instanceof Error ? err.message : err);
+        } finally {
+            running = false;
+        }
+    };
+
+    setTimeout(tick, FIRST_REFRESH_DELAY_MS);
+    setInterval(tick, intervalMs);
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Reads
+// ═══════════════════════════════════════════════════════════════════
+
+export async function getCatalogPage(
+    type: "movie" | "series",
+    opts: { skip?: number; genre?: string },
+): Promise<CatalogMeta[]> {
+    let entries = await readCatalog(type);
+
+    if (opts.genre) {
+        const genre = opts.genre.toLowerCase();
+        entries = entries.filter((e) => e.genres?.some((g) => g.toLowerCase() === genre));
+    }
+
+    const skip = Math.max(0, opts.skip ?? 0);
+    return entries.slice(skip, skip + CATALOG_PAGE_SIZE).map(({ lastSeen: _lastSeen, ...meta }) => meta);
+}
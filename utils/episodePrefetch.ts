@@ -0,0 +1,229 @@
+import { LRUCache } from "lru-cache";
+import { filenameParse as parseRelease, type ParsedFilename } from "@ctrl/video-filename-parser";
+import { Config } from "../env.ts";
+import { getJsonValue, setJsonValue } from "./redis.ts";
+import { getMediaAndSearchResults, getMediaMeta, type SearchResult } from "./getMediaAndSearchResults.ts";
+import { parseRequestedEpisode } from "./parseRequestedEpisode.ts";
+import { isAnimeId } from "./animeMapping.ts";
+import { assessRelease, getKnownFailures } from "./releaseSafety.ts";
+import { applyFilterRules, compileFilterRules } from "./filterRules.ts";
+import { compileUserConfigRules, type UserConfig } from "./userConfig.ts";
+import { getEnabledFilterRules } from "./sqlite.ts";
+import { getInstallRankingProfile, rankResults } from "./rankingProfiles.ts";
+import { extractGuidFromUrl, getStreamHash } from "./streamHelpers.ts";
+import { JobBudget } from "./jobBudget.ts";
+import { checkNzb } from "../lib/nzbcheck.ts";
+import { prepareNzbdavStream } from "../lib/nzbDav/nzbDav.ts";
+import type { StreamCache } from "../lib/nzbDav/types.ts";
+
+// ═══════════════════════════════════════════════════════════════════
+// Types & Constants
+// ═══════════════════════════════════════════════════════════════════
+
+interface PrefetchJob {
+    seriesId: string;
+    controller: AbortController;
+}
+
+// The episode a stream key plays and the ranking profile of the install that listed it
+interface PlayedEpisode {
+    videoId: string;
+    profile?: string;
+}
+
+interface PrefetchCandidate extends SearchResult {
+    extractedGuid: string;
+    resolution: string;
+    parsedInfo: ParsedFilename;
+}
+
+const STREAM_TTL = 172800; // same lifetime as the records written by the stream list
+const IDLE_CANCEL_MS = 2 * 60_000; // seeks reopen the stream, only a longer gap means the viewer left
+
+// Stream keys that already queued their look-ahead, range requests must not queue it again
+const triggered = new LRUCache<string, string>({ max: 1000, ttl: 60 * 60_000 });
+const episodeOfKey = new LRUCache<string, PlayedEpisode>({ max: 1000 });
+
+const jobs = new Map<string, PrefetchJob>(); // by video id
+const viewers = new Map<string, number>(); // open playback requests per series
+const idleTimers = new Map<string, ReturnType<typeof setTimeout>>();
+const budget = new JobBudget(() => Config.PREFETCH_MAX_CONCURRENT);
+
+// ═══════════════════════════════════════════════════════════════════
+// Selection
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * Video ids of the next aired episodes after `videoId`, crossing into the next season.
+ * Specials (season 0) are skipped.
+ */
+async function findNextEpisodes(videoId: string, depth: number): Promise<string[]> {
+    const current = parseRequestedEpisode("series", videoId);
+    if (!current?.season || !current.episode) return [];
+
+    const meta = await getMediaMeta("series", current.imdbid);
+    const now = Date.now();
+    const order = (s: number, e: number) => s * 100_000 + e;
+    const from = order(current.season, current.episode);
+
+    return (meta.videos ?? [])
+        .filter((v) => v.season && v.episode && order(v.season, v.episode) > from)
+        .filter((v) => !v.released || Date.parse(v.released) <= now)
+        .sort((a, b) => order(a.season!, a.episode!) - order(b.season!, b.episode!))
+        .slice(0, depth)
+        .map((v) => v.id);
+}
+
+/**
+ * The release the stream list would rank first for an episode, with the same checks and the
+ * same install profile applied: incomplete, mismatched, passworded and previously failed
+ * releases are never prefetched.
+ */
+async function selectTopResult(videoId: string, config: UserConfig, profile?: string): Promise<PrefetchCandidate | null> {
+    const info = parseRequestedEpisode("series", videoId);
+    if (!info) return null;
+
+    const { results } = await getMediaAndSearchResults("series", info, config.indexers);
+    const valid = results.filter((r) => r.indexer && r.guid && !(r.imdbId && r.imdbId !== info.imdbid));
+    if (!valid.length) return null;
+
+    const guids = valid.map((r) => extractGuidFromUrl(r.guid!, r.provider));
+    const [checks, failures] = await Promise.all([
+        checkNzb(valid.map((r, i) => ({ source_indexer: r.indexer!, file_id: guids[i] }))),
+        getKnownFailures(valid.map((r) => r.downloadUrl)),
+    ]);
+    const statuses = (checks?.data ?? {}) as Record<string, { is_complete?: boolean | null }>;
+
+    const candidates: PrefetchCandidate[] = [];
+    for (let i = 0; i < valid.length; i++) {
+        const r = valid[i];
+        if (failures[i]) continue;
+        if (statuses[`${r.indexer!.toLowerCase()}:${guids[i]}`]?.is_complete === false) continue;
+        const verdict = assessRelease(r);
+        if (verdict.passworded || verdict.maybePassworded) continue;
+
+        const parsed = parseRelease(r.title, true);
+        candidates.push({ ...r, extractedGuid: guids[i], resolution: parsed.resolution || "Unknown", parsedInfo: parsed });
+    }
+
+    const rules = [...compileUserConfigRules(config), ...compileFilterRules(getEnabledFilterRules())];
+    const { kept } = applyFilterRules(candidates, rules);
+    return rankResults(kept, getInstallRankingProfile(profile, config))[0] ?? null;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Jobs
+// ═══════════════════════════════════════════════════════════════════
+
+async function prefetchEpisode(videoId: string, seriesId: string, config: UserConfig, profile?: string): Promise<void> {
+    if (jobs.has(videoId)) return;
+
+    const controller = new AbortController();
+    const { signal } = controller;
+    jobs.set(videoId, { seriesId, controller });
+
+    try {
+        await budget.run(async () => {
+            const top = await selectTopResult(videoId, config, profile);
+            signal.throwIfAborted();
+            if (!top) {
+                console.log(`[Prefetch] ${videoId}: no usable release`);
+                return;
+            }
+
+            const hash = getStreamHash(top, videoId);
+            const meta: StreamCache = {
+                downloadUrl: top.downloadUrl,
+                title: top.title,
+                size: top.size,
+                guid: top.extractedGuid,
+                indexer: top.indexer,
+                type: "series",
+                fileName: top.fileName ?? top.title,
+                rawImdbId: videoId,
+                indexers: config.indexers,
+                profile,
+                seasonPack: top.seasonPack,
+            };
+            await setJsonValue(`streams:${hash}`, "$", meta, STREAM_TTL, "NX");
+
+            await prepareNzbdavStream(hash, meta, signal);
+            console.log(`[Prefetch] ${videoId} ready: ${top.title}`);
+        }, signal);
+    } catch (err) {
+        if (signal.aborted) console.log(`[Prefetch] ${videoId} cancelled`);
+        else console.warn(`[Prefetch] ${videoId} failed:`, err instanceof Error ? err.message : err);
+    } finally {
+        jobs.delete(videoId);
+    }
+}
+
+function cancelSeries(seriesId: string): void {
+    for (const job of jobs.values()) {
+        if (job.seriesId === seriesId) job.controller.abort();
+    }
+    // Coming back later queues the look-ahead again
+    for (const [key, series] of triggered.entries()) {
+        if (series === seriesId) triggered.delete(key);
+    }
+}
+
+/**
+ * Counts an open playback request for the series. Once none has been open for a while the
+ * viewer is gone and queued or running prefetches for the series are cancelled.
+ */
+function trackViewer(seriesId: string, signal: AbortSignal): void {
+    clearTimeout(idleTimers.get(seriesId));
+    idleTimers.delete(seriesId);
+    viewers.set(seriesId, (viewers.get(seriesId) ?? 0) + 1);
+
+    signal.addEventListener("abort", () => {
+        const open = (viewers.get(seriesId) ?? 1) - 1;
+        if (open > 0) {
+            viewers.set(seriesId, open);
+            return;
+        }
+        viewers.delete(seriesId);
+        idleTimers.set(seriesId, setTimeout(() => {
+            idleTimers.delete(seriesId);
+            cancelSeries(seriesId);
+        }, IDLE_CANCEL_MS));
+    }, { once: true });
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Entry Point
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * Called for every NZBDav playback request. The first request for an episode queues its next
+ * `PREFETCH_EPISODES` episodes through the same build and lock path as playback, so they are
+ * ready on NZBDav when the viewer gets there.
+ */
+export async function prefetchNextEpisodes(key: string, signal: AbortSignal, config: UserConfig): Promise<void> {
+    const depth = Config.PREFETCH_EPISODES;
+    if (!depth) return;
+
+    try {
+        let played = episodeOfKey.get(key);
+        if (played === undefined) {
+            const meta = await getJsonValue<StreamCache>(`streams:${key}`);
+            const videoId = meta?.type === "series" && meta.rawImdbId && !isAnimeId(meta.rawImdbId) ? meta.rawImdbId : "";
+            played = { videoId, profile: meta?.profile };
+            episodeOfKey.set(key, played);
+        }
+        const { videoId, profile } = played;
+        if (!videoId) return;
+
+        const seriesId = videoId.split(":")[0];
+        trackViewer(seriesId, signal);
+        if (triggered.has(key)) return;
+        triggered.set(key, seriesId);
+
+        const next = await findNextEpisodes(videoId, depth);
+        if (next.length) console.log(`[Prefetch] ${videoId} started, queuing ${next.join(", ")}`);
+        for (const id of next) prefetchEpisode(id, seriesId, config, profile);
+    } catch (err) {
+        console.warn("[Prefetch] Look-ahead failed:", err instanceof Error ? err.message : err);
+    }
+}
@@ -0,0 +1,160 @@
+import type { ParsedFilename } from "@ctrl/video-filename-parser";
+import type { FilterRule, FilterRuleType } from "./sqlite.ts";
+
+// ═══════════════════════════════════════════════════════════════════
+// Types
+// ═══════════════════════════════════════════════════════════════════
+
+export interface FilterableResult {
+    title: string;
+    size: number;
+    resolution: string;
+    indexer?: string;
+    parsedInfo: ParsedFilename;
+}
+
+export interface CompiledRule {
+    name: string;
+    rejects: (r: FilterableResult) => boolean;
+}
+
+export interface FilterOutcome<T> {
+    kept: T[];
+    dropped: Map<string, number>;
+}
+
+export const FILTER_RULE_TYPES: readonly FilterRuleType[] = [
+    "exclude_source",
+    "require_language",
+    "block_group",
+    "max_size",
+    "title_regex",
+];
+
+const GIGABYTE = 1024 * 1024 * 1024;
+const WILDCARD = "*";
+
+// ═══════════════════════════════════════════════════════════════════
+// Compilation
+// ═══════════════════════════════════════════════════════════════════
+
+function splitList(value: string): string[] {
+    return value.split(",").map((v) => v.trim().toLowerCase()).filter(Boolean);
+}
+
+/**
+ * Parses "2160P:60,1080P:20,*:15" into a resolution -> max bytes map.
+ */
+function parseSizeCaps(value: string): Map<string, number> {
+    const caps = new Map<string, number>();
+    for (const part of value.split(",")) {
+        const [res, gb] = part.split(":").map((p) => p.trim());
+        const limit = Number(gb);
+        if (!res || !Number.isFinite(limit) || limit <= 0) {
+            throw new Error(`Invalid size cap "${part.trim()}" (expected RESOLUTION:GB)`);
+        }
+        caps.set(res.toLowerCase(), limit * GIGABYTE);
+    }
+    return caps;
+}
+
+/**
+ * Turns a stored rule into a predicate. Throws on malformed values so
+ * the CLI/frontend can validate before saving.
+ */
+export function compileFilterRule(rule: Pick<FilterRule, "name" | "type" | "value">): CompiledRule {
+    const { name, type, value } = rule;
+
+    switch (type) {
+        case "exclude_source": {
+            const sources = new Set(splitList(value));
+            return {
+                name,
+                rejects: (r) => r.parsedInfo.sources?.some((s) => sources.has(s.toLowerCase())) ?? false,
+            };
+        }
+        case "require_language": {
+            const languages = new Set(splitList(value));
+            return {
+                name,
+                rejects: (r) => !(r.parsedInfo.languages?.some((l) => languages.has(l.toLowerCase())) ?? false),
+            };
+        }
+        case "block_group": {
+            const groups = new Set(splitList(value));
+            return {
+                name,
+                rejects: (r) => !!r.parsedInfo.group && groups.has(r.parsedInfo.group.toLowerCase()),
+            };
+        }
+        case "max_size": {
+            const caps = parseSizeCaps(value);
+            return {
+                name,
+                rejects: (r) => {
+                    const limit = caps.get(r.resolution.toLowerCase()) ?? caps.get(WILDCARD);
+                    return limit !== undefined && r.size > limit;
+                },
+            };
+        }
+        case "title_regex": {
+            const rx = new RegExp(value, "i");
+            return { name, rejects: (r) => rx.test(r.title) };
+        }
+        default:
+            throw new Error(`Unknown filter rule type: ${type}`);
+    }
+}
+
+export function compileFilterRules(rules: FilterRule[]): CompiledRule[] {
+    const compiled: CompiledRule[] = [];
+    for (const rule of rules) {
+        try {
+            compiled.push(compileFilterRule(rule));
+        } catch (err) {
+            // A broken rule must never take down stream listing
+            console.error(`[Filter] Skipping rule "${rule.name}":`, err instanceof Error ? err.message : err);
+        }
+    }
+    return compiled;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Application
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * Applies rules in order. A result is attributed to the first rule that rejects it.
+ */
+export function applyFilterRules<T extends FilterableResult>(results: T[], rules: CompiledRule[]): FilterOutcome<T> {
+    const dropped = new Map<string, number>();
+    if (rules.length === 0) return { kept: results, dropped };
+
+    const kept: T[] = [];
+
+    outer: for (let i = 0; i < results.length; i++) {
+        const r = results[i];
+        for (let j = 0; j < rules.length; j++) {
+            if (rules[j].rejects(r)) {
+                const name = rules[j].name;
+                dropped.set(name, (dropped.get(name) ?? 0) + 1);
+                continue outer;
+            }
+        }
+        kept.push(r);
+    }
+
+    return { kept, dropped };
+}
+
+/**
+ * Formats drop counts for the X-Filter-Dropped debug header, e.g. "No CAM=3; English only=1".
+ */
+export function formatDroppedHeader(dropped: Map<string, number>): string {
+    const parts: string[] = [];
+    for (const [name, count] of dropped) {
+        // Header values must be printable ASCII and avoid the delimiters we use
+        parts.push(`${name.replace(/[^\x20-\x7E]+|[;=]+/g, " ").trim()}=${count}`);
+    }
+    return parts.join("; ");
+}
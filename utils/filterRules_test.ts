@@ -0,0 +1,95 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import type { ParsedFilename } from "@ctrl/video-filename-parser";
+import {
+    applyFilterRules,
+    compileFilterRule,
+    compileFilterRules,
+    type FilterableResult,
+    formatDroppedHeader,
+} from "./filterRules.ts";
+import type { FilterRule } from "./sqlite.ts";
+
+const GB = 1024 * 1024 * 1024;
+
+function result(title: string, parsed: Partial<ParsedFilename>, resolution = "1080P", size = 4 * GB): FilterableResult {
+    return { title, size, resolution, indexer: "geek", parsedInfo: parsed as ParsedFilename };
+}
+
+function rule(type: FilterRule["type"], value: string, name: string = type): FilterRule {
+    return { id: 1, name, type, value, enabled: 1 };
+}
+
+// --- Compilation ---
+
+Deno.test("exclude_source matches parsed sources case-insensitively", () => {
+    const { rejects } = compileFilterRule(rule("exclude_source", "CAM, telesync"));
+    assertEquals(rejects(result("Movie.CAM", { sources: ["CAM"] as ParsedFilename["sources"] })), true);
+    assertEquals(rejects(result("Movie.TS", { sources: ["TELESYNC"] as ParsedFilename["sources"] })), true);
+    assertEquals(rejects(result("Movie.WEB", { sources: ["WEBDL"] as ParsedFilename["sources"] })), false);
+    assertEquals(rejects(result("Movie", {})), false);
+});
+
+Deno.test("require_language rejects releases without one of the languages", () => {
+    const { rejects } = compileFilterRule(rule("require_language", "English,German"));
+    assertEquals(rejects(result("a", { languages: ["German"] as ParsedFilename["languages"] })), false);
+    assertEquals(rejects(result("b", { languages: ["French"] as ParsedFilename["languages"] })), true);
+    assertEquals(rejects(result("c", {})), true);
+});
+
+Deno.test("block_group only rejects listed groups", () => {
+    const { rejects } = compileFilterRule(rule("block_group", "YIFY"));
+    assertEquals(rejects(result("a", { group: "yify" })), true);
+    assertEquals(rejects(result("b", { group: "NTb" })), false);
+    assertEquals(rejects(result("c", {})), false);
+});
+
+Deno.test("max_size caps per resolution with a wildcard fallback", () => {
+    const { rejects } = compileFilterRule(rule("max_size", "2160P:60, *:20"));
+    assertEquals(rejects(result("a", {}, "2160P", 50 * GB)), false);
+    assertEquals(rejects(result("b", {}, "2160P", 61 * GB)), true);
+    assertEquals(rejects(result("c", {}, "1080P", 21 * GB)), true);
+    assertEquals(rejects(result("d", {}, "720P", 20 * GB)), false);
+
+    const { rejects: only4k } = compileFilterRule(rule("max_size", "2160P:60"));
+    assertEquals(only4k(result("e", {}, "1080P", 100 * GB)), false);
+});
+
+Deno.test("title_regex is case-insensitive", () => {
+    const { rejects } = compileFilterRule(rule("title_regex", "\\bhdcam\\b"));
+    assertEquals(rejects(result("Movie.2024.HDCAM.x264", {})), true);
+    assertEquals(rejects(result("Movie.2024.WEB.x264", {})), false);
+});
+
+Deno.test("malformed rules throw on compile and are skipped in bulk", () => {
+    assertThrows(() => compileFilterRule(rule("max_size", "1080P")), Error, "Invalid size cap");
+    assertThrows(() => compileFilterRule(rule("max_size", "1080P:-5")), Error, "Invalid size cap");
+    assertThrows(() => compileFilterRule(rule("title_regex", "(")));
+    assertThrows(() => compileFilterRule(rule("nope" as FilterRule["type"], "x")), Error, "Unknown filter rule type");
+
+    const compiled = compileFilterRules([rule("title_regex", "(", "broken"), rule("block_group", "YIFY", "groups")]);
+    assertEquals(compiled.map((c) => c.name), ["groups"]);
+});
+
+// --- Application ---
+
+Deno.test("applyFilterRules attributes each drop to the first rejecting rule", () => {
+    const rules = [
+        compileFilterRule(rule("block_group", "YIFY", "No YIFY")),
+        compileFilterRule(rule("title_regex", "cam", "No CAM")),
+    ];
+    const results = [
+        result("Movie.CAM-YIFY", { group: "YIFY" }),
+        result("Movie.CAM-NTb", { group: "NTb" }),
+        result("Movie.WEB-NTb", { group: "NTb" }),
+    ];
+
+    const { kept, dropped } = applyFilterRules(results, rules);
+    assertEquals(kept.map((r) => r.title), ["Movie.WEB-NTb"]);
+    assertEquals([...dropped], [["No YIFY", 1], ["No CAM", 1]]);
+    assertEquals(applyFilterRules(results, []).kept, results);
+});
+
+Deno.test("formatDroppedHeader strips characters a header cannot carry", () => {
+    const header = formatDroppedHeader(new Map([["No CAM;=", 3], ["Only 🇩🇪 German", 1]]));
+    assertEquals(header, "No CAM=3; Only   German=1");
+});
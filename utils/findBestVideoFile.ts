@@ -16,6 +16,7 @@ export interface FileCandidate {
 export interface EpisodeInfo {
     season?: number;
     episode?: number;
+    absoluteEpisode?: number;
 }
 
 export interface FindFileParams {
@@ -24,6 +25,7 @@ export interface FindFileParams {
     requestedEpisode: EpisodeInfo | undefined;
     title?: string;
     allowPartial?: boolean;
+    seasonPack?: boolean; // only the requested episode may be picked, never another one from the pack
 }
 
 const PUBLIC_BASE_URL = Config.NZBDAV_URL
@@ -43,10 +45,14 @@ const SAMPLE_MIN_BYTES_FULL = 52_428_800;    // ~50 MB
 const PROGRESSIVE_GOOD_ENOUGH_BYTES = 25_000_000; // 25 MB
 
 // Helper to pre-compile episode regex
-function getEpisodeRegex(requestedEpisode?: EpisodeInfo): RegExp | null {
+export function getEpisodeRegex(requestedEpisode?: EpisodeInfo): RegExp | null {
     if (!requestedEpisode?.season || !requestedEpisode?.episode) return null;
+    // Anime files are often numbered absolutely: "Show - 1043.mkv", "Show EP1043.mkv"
+    const absolute = requestedEpisode.absoluteEpisode
+        ? `|(?:\\s-\\s|[\\s._](?:ep?|episode)[\\s.]?)0*${requestedEpisode.absoluteEpisode}(?:v\\d)?`
+        : "";
     return new RegExp(
-        `(?:s0*${requestedEpisode.season}[. ]?e0*${requestedEpisode.episode}|0*${requestedEpisode.season}x0*${requestedEpisode.episode})(?![0-9])`,
+        `(?:s0*${requestedEpisode.season}[. ]?e0*${requestedEpisode.episode}|0*${requestedEpisode.season}x0*${requestedEpisode.episode}${absolute})(?![0-9])`,
         "i",
     );
 }
@@ -76,7 +82,7 @@ export async function findBestVideoFile(
 // ═══════════════════════════════════════════════════════════════════
 
 async function findStrmCandidate(
-    { category, jobName, requestedEpisode }: FindFileParams,
+    { category, jobName, requestedEpisode, seasonPack }: FindFileParams,
 ): Promise<FileCandidate | null> {
     const safeJobName = jobName.replace(/^\/|\/$/g, "");
     const strmDir = `/strm/content/${category}/${safeJobName}`;
@@ -92,7 +98,7 @@ async function findStrmCandidate(
             const matchesEpisode = episodeRegex ? episodeRegex.test(entry.name) : true;
 
             // If we already have a generic, don't read another generic from disk
-            if (!matchesEpisode && bestGeneric) continue;
+            if (!matchesEpisode && (bestGeneric || (seasonPack && episodeRegex))) continue;
 
             try {
                 const content = await Deno.readTextFile(`${strmDir}/${entry.name}`);
@@ -118,7 +124,7 @@ async function findStrmCandidate(
                 continue;
             }
         }
-        return bestGeneric;
+        return seasonPack && episodeRegex ? null : bestGeneric;
     } catch {
         return null;
     }
@@ -129,7 +135,7 @@ async function findStrmCandidate(
 // ═══════════════════════════════════════════════════════════════════
 
 export async function findWebdavCandidate(
-    { category, jobName, requestedEpisode, allowPartial }: FindFileParams,
+    { category, jobName, requestedEpisode, allowPartial, seasonPack }: FindFileParams,
 ): Promise<FileCandidate | null> {
     const client = getWebdavClient();
     const rootPath = normalizeNzbdavPath(`/content/${category}/${jobName}`).replace(/\/$/, "");
@@ -247,5 +253,6 @@ export async function findWebdavCandidate(
         }
     }
 
+    if (seasonPack && episodeRegex) return bestEpisode;
     return bestEpisode || bestGeneric || null;
 }
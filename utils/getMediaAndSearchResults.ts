@@ -1,15 +1,16 @@
 import { redis } from "./redis.ts";
-import { getCinemetaData } from "../lib/cinemeta.ts";
-import { searchHydra } from "../lib/nzbhydra.ts";
-import { searchProwlarr } from "../lib/prowlarr.ts";
-import { searchDirect } from "../lib/nzbnab.ts";
+import { getCinemetaData, getCinemetaMeta } from "../lib/cinemeta.ts";
+import { searchAllProviders, type SearchProvider } from "./searchProviders.ts";
 import { Config } from "../env.ts";
 import { LRUCache } from "lru-cache";
+import { getSearchCacheKey } from "./parseRequestedEpisode.ts";
+import type { NewznabAttributes } from "./newznabAttributes.ts";
 
 interface RequestedEpisode {
     imdbid?: string;
     season?: number;
     episode?: number;
+    absoluteEpisode?: number;
 }
 
 interface CinemetaData {
@@ -20,7 +21,7 @@ interface CinemetaData {
     imdbId?: string;
 }
 
-export interface SearchResult {
+export interface SearchResult extends NewznabAttributes {
     guid: string | null;
     fileId?: string;
     title: string;
@@ -30,17 +31,27 @@ export interface SearchResult {
     category?: string;
     indexer?: string;
     age?: number;
-    grabs?: number;
     protocol?: string;
+    seasonPack?: boolean;
+    provider?: SearchProvider; // which search backend returned it
 }
 
-interface RawSearchResult {
-    guid: string | null;
-    title: string;
-    downloadUrl: string;
-    size: number;
-    indexer?: string;
-    age?: number;
+export interface StremioVideo {
+    id: string;
+    title?: string;
+    name?: string;
+    season?: number;
+    episode?: number;
+    released?: string;
+    [key: string]: unknown;
+}
+
+export interface StremioMeta {
+    id: string;
+    type: string;
+    name: string;
+    videos?: StremioVideo[];
+    [key: string]: unknown;
 }
 
 // --- CONSTANTS & CONFIG ---
@@ -48,11 +59,6 @@ const CINEMETA_CACHE_TTL = 604800;
 const SEARCH_CACHE_TTL = 86400;
 const CINEMETA_INFLIGHT_TTL_SEC = 20;
 const SEARCH_INFLIGHT_TTL_SEC = 25;
-const PROTOCOL_USENET = "usenet";
-
-const PROVIDER: "hydra" | "prowlarr" | "direct" =
-    (Config.NZBHYDRA_URL && Config.NZBHYDRA_API_KEY) ? "hydra" :
-        (Config.PROWLARR_URL && Config.PROWLARR_API_KEY) ? "prowlarr" : "direct";
 
 const SAFE_UNLOCK_SCRIPT = `
     if redis.call("get", KEYS[1]) == ARGV[1] then
@@ -63,7 +69,7 @@ const SAFE_UNLOCK_SCRIPT = `
 `;
 
 // --- CACHES ---
-type CacheValue = CinemetaData | SearchResult[];
+type CacheValue = CinemetaData | SearchResult[] | StremioMeta;
 
 const l1Cache = new LRUCache<string, CacheValue>({
     max: 1000,
@@ -196,18 +202,46 @@ async function getTmdbData(type: "movie" | "series", tmdbIdFull: string): Promis
     };
 }
 
+/**
+ * Full Stremio meta (with `videos` for series) for the meta resource.
+ * TMDB ids are resolved to IMDb first since Cinemeta only knows IMDb ids.
+ */
+export function getMediaMeta(type: "movie" | "series", requestedId: string): Promise<StremioMeta> {
+    return getOrCompute<StremioMeta>(
+        `meta:${type}:${requestedId}`,
+        CINEMETA_INFLIGHT_TTL_SEC,
+        CINEMETA_CACHE_TTL,
+        false,
+        async () => {
+            let imdbId = requestedId;
+            if (requestedId.startsWith("tmdb:")) {
+                const tmdb = await getTmdbData(type, requestedId);
+                if (!tmdb.imdbId) throw new Error(`No IMDb id for ${requestedId}`);
+                imdbId = tmdb.imdbId;
+            }
+
+            const meta = await getCinemetaMeta(type, imdbId) as StremioMeta;
+            return { ...meta, id: requestedId };
+        },
+    );
+}
+
+/**
+ * `indexers` limits the fan-out to an install's indexer subset. Those results are cached
+ * under their own key, a subset search must not stand in for the full one.
+ */
 export async function getMediaAndSearchResults(
     type: "movie" | "series",
     episodeInfo: RequestedEpisode,
+    indexers?: string[],
 ): Promise<{ cinemetaData: CinemetaData; results: SearchResult[] }> {
-    const { imdbid: requestedId, season, episode } = episodeInfo;
+    const { imdbid: requestedId, season, episode, absoluteEpisode } = episodeInfo;
     if (!requestedId) throw new Error("An ID is required");
 
+    const subset = indexers?.length ? [...new Set(indexers.map((i) => i.toLowerCase()))].sort() : undefined;
     const isTmdb = requestedId.startsWith("tmdb:");
     const cinemetaKey = `cinemeta:${type}:${requestedId}`;
-    const searchKey = (season && episode)
-        ? `search:${requestedId}:${season}:${episode}`
-        : `search:${requestedId}`;
+    const searchKey = getSearchCacheKey(episodeInfo, subset);
 
     // L1 Memory Check
     let l1Meta = l1Cache.get(cinemetaKey) as CinemetaData | undefined;
@@ -248,7 +282,7 @@ export async function getMediaAndSearchResults(
         SEARCH_INFLIGHT_TTL_SEC,
         SEARCH_CACHE_TTL,
         true,
-        async () => {
+        () => {
             const resolvedImdbId = isTmdb ? cinemetaData.imdbId : requestedId;
             const resolvedTmdbId = cinemetaData.tmdbId || (isTmdb ? requestedId.slice(5) : undefined);
 
@@ -262,33 +296,11 @@ export async function getMediaAndSearchResults(
                 limit: 50,
                 season,
                 episode,
+                absoluteEpisode,
+                indexers: subset,
             };
 
-            let raw: RawSearchResult[];
-            if (PROVIDER === "hydra") {
-                raw = await searchHydra(opts) as RawSearchResult[];
-            } else if (PROVIDER === "prowlarr") {
-                return searchProwlarr(opts) as Promise<SearchResult[]>;
-            } else {
-                raw = await searchDirect(opts) as RawSearchResult[];
-            }
-
-            // High performance manual mapping loop (beats Array.prototype.map in V8)
-            const out = new Array<SearchResult>(raw.length);
-            for (let i = 0; i < raw.length; i++) {
-                const r = raw[i];
-                out[i] = {
-                    guid: r.guid,
-                    title: r.title,
-                    downloadUrl: r.downloadUrl,
-                    size: r.size,
-                    indexer: r.indexer,
-                    age: r.age,
-                    protocol: PROTOCOL_USENET,
-                    fileName: r.title,
-                };
-            }
-            return out;
+            return searchAllProviders(opts);
         },
     );
 
@@ -0,0 +1,162 @@
+import {
+    getIndexerHealth,
+    saveIndexerHealth,
+    setIndexerCircuit,
+    type IndexerHealth,
+} from "./sqlite.ts";
+
+// ═══════════════════════════════════════════════════════════════════
+// Types & Constants
+// ═══════════════════════════════════════════════════════════════════
+
+export type IndexerOutcome =
+    | { ok: true; latencyMs: number }
+    | { ok: false; latencyMs: number; reason: string; apiLimit?: boolean };
+
+type IndexerFailure = Extract<IndexerOutcome, { ok: false }>;
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+const SAMPLE_WINDOW = 50;
+const FAILURE_THRESHOLD = 3; // consecutive failures before the circuit opens
+const BASE_COOLDOWN_MS = 60_000;
+const MAX_COOLDOWN_MS = 30 * 60_000;
+const API_LIMIT_COOLDOWN_MS = 60 * 60_000; // limits usually reset hourly or daily
+const PROBE_WINDOW_MS = 30_000; // one probe at a time while half-open
+
+// ═══════════════════════════════════════════════════════════════════
+// Helpers
+// ═══════════════════════════════════════════════════════════════════
+
+function emptyHealth(indexerId: number): IndexerHealth {
+    return {
+        indexer_id: indexerId,
+        samples: "[]",
+        p50_ms: null,
+        p95_ms: null,
+        error_rate: 0,
+        consecutive_failures: 0,
+        api_limit_hits: 0,
+        last_success_at: null,
+        last_failure_at: null,
+        last_failure_reason: null,
+        circuit_open_until: 0,
+    };
+}
+
+function percentile(sorted: number[], p: number): number | null {
+    if (sorted.length === 0) return null;
+    const idx = Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1);
+    return sorted[Math.max(0, idx)];
+}
+
+function parseSamples(raw: string): [number, number][] {
+    try {
+        const parsed = JSON.parse(raw);
+        return Array.isArray(parsed) ? parsed : [];
+    } catch {
+        return [];
+    }
+}
+
+// Doubles per failure past the threshold: 1m, 2m, 4m ... capped at 30m
+function cooldownFor(consecutiveFailures: number): number {
+    const steps = Math.max(0, consecutiveFailures - FAILURE_THRESHOLD);
+    return Math.min(MAX_COOLDOWN_MS, BASE_COOLDOWN_MS * 2 ** steps);
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Circuit Breaker
+// ═══════════════════════════════════════════════════════════════════
+
+export function getCircuitState(h: IndexerHealth | undefined, now = Date.now()): CircuitState {
+    if (!h || h.consecutive_failures < FAILURE_THRESHOLD) return "closed";
+    return h.circuit_open_until > now ? "open" : "half-open";
+}
+
+/**
+ * Whether a request may go to this indexer. A half-open circuit lets exactly one probe
+ * through by pushing `circuit_open_until` out for the length of the probe.
+ */
+export function acquireIndexer(indexerId: number, now = Date.now()): boolean {
+    const h = getIndexerHealth(indexerId);
+    const state = getCircuitState(h, now);
+
+    if (state === "open") return false;
+    if (state === "half-open") setIndexerCircuit(indexerId, now + PROBE_WINDOW_MS);
+    return true;
+}
+
+/**
+ * Folds the parallel queries of one search into a single sample, taking the slowest latency.
+ * An API limit on any query wins, the next search would hit it too. Otherwise the search
+ * only failed when no query got an answer.
+ */
+export function combineIndexerOutcomes(outcomes: IndexerOutcome[]): IndexerOutcome {
+    const latencyMs = Math.max(0, ...outcomes.map((o) => o.latencyMs));
+    const failures = outcomes.filter((o): o is IndexerFailure => !o.ok);
+
+    const limited = failures.find((f) => f.apiLimit);
+    if (limited) return { ...limited, latencyMs };
+    if (failures.length > 0 && failures.length === outcomes.length) return { ...failures[0], latencyMs };
+    return { ok: true, latencyMs };
+}
+
+export function recordIndexerOutcome(indexerId: number, outcome: IndexerOutcome, now = Date.now()): void {
+    const h = getIndexerHealth(indexerId) ?? emptyHealth(indexerId);
+
+    const samples = parseSamples(h.samples);
+    samples.push([Math.round(outcome.latencyMs), outcome.ok ? 1 : 0]);
+    if (samples.length > SAMPLE_WINDOW) samples.splice(0, samples.length - SAMPLE_WINDOW);
+
+    // Latency percentiles only count answered requests, timeouts would skew them
+    const latencies = samples.filter(([, ok]) => ok).map(([ms]) => ms).sort((a, b) => a - b);
+    h.samples = JSON.stringify(samples);
+    h.p50_ms = percentile(latencies, 0.5);
+    h.p95_ms = percentile(latencies, 0.95);
+    h.error_rate = samples.filter(([, ok]) => !ok).length / samples.length;
+
+    if (outcome.ok) {
+        h.consecutive_failures = 0;
+        h.circuit_open_until = 0;
+        h.last_success_at = now;
+    } else {
+        h.consecutive_failures++;
+        h.last_failure_at = now;
+        h.last_failure_reason = outcome.reason.slice(0, 200);
+
+        if (outcome.apiLimit) {
+            h.api_limit_hits++;
+            h.consecutive_failures = Math.max(h.consecutive_failures, FAILURE_THRESHOLD);
+            h.circuit_open_until = now + API_LIMIT_COOLDOWN_MS;
+        } else if (h.consecutive_failures >= FAILURE_THRESHOLD) {
+            h.circuit_open_until = now + cooldownFor(h.consecutive_failures);
+        }
+
+        if (h.circuit_open_until > now) {
+            const until = new Date(h.circuit_open_until).toISOString().slice(11, 16);
+            console.warn(`[Health] Indexer ${indexerId} paused until ${until} UTC: ${h.last_failure_reason}`);
+        }
+    }
+
+    saveIndexerHealth(h);
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Display
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * One-line status for `manage list`.
+ */
+export function formatIndexerHealth(h: IndexerHealth | undefined, now = Date.now()): string {
+    if (!h) return "no data";
+
+    const state = getCircuitState(h, now);
+    if (state === "open") {
+        return `⛔ paused until ${new Date(h.circuit_open_until).toISOString().slice(11, 16)} UTC`;
+    }
+    if (state === "half-open") return "🔁 probing";
+    if (h.error_rate > 0.2) return `⚠️ ${Math.round(h.error_rate * 100)}% errors`;
+    return "✅ healthy";
+}
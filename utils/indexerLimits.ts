@@ -0,0 +1,163 @@
+import { getAllIndexers, incrementIndexerUsage, setIndexerLimits, type Indexer } from "./sqlite.ts";
+
+// ═══════════════════════════════════════════════════════════════════
+// Types & Constants
+// ═══════════════════════════════════════════════════════════════════
+
+export type IndexerBudget = "ok" | "low" | "exhausted";
+
+export interface CapsLimits {
+    apiLimit?: number;
+    grabLimit?: number;
+}
+
+const DAY_MS = 24 * 60 * 60_000;
+const LOW_BUDGET_RATIO = 0.9; // past this share of a limit the indexer is kept in reserve
+
+// ═══════════════════════════════════════════════════════════════════
+// Usage Window
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * Start of the current counting window: the last time the clock passed the indexer's reset hour (UTC).
+ */
+export function getUsageWindowStart(resetHour: number, now = Date.now()): number {
+    const today = new Date(now);
+    today.setUTCHours(resetHour, 0, 0, 0);
+    const start = today.getTime();
+    return start > now ? start - DAY_MS : start;
+}
+
+export function getCurrentUsage(indexer: Indexer, now = Date.now()): { api: number; grabs: number } {
+    const windowStart = getUsageWindowStart(indexer.limit_reset_hour ?? 0, now);
+    if ((indexer.usage_window_start ?? 0) < windowStart) return { api: 0, grabs: 0 };
+    return { api: indexer.api_used ?? 0, grabs: indexer.grabs_used ?? 0 };
+}
+
+function usageRatio(used: number, limit: number): number {
+    return limit > 0 ? used / limit : 0;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Budget
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * Running out of grabs counts too: results from that indexer could not be downloaded anyway.
+ */
+export function getIndexerBudget(indexer: Indexer, now = Date.now()): IndexerBudget {
+    const usage = getCurrentUsage(indexer, now);
+    const ratio = Math.max(usageRatio(usage.api, indexer.api_limit), usageRatio(usage.grabs, indexer.grab_limit));
+
+    if (ratio >= 1) return "exhausted";
+    if (ratio >= LOW_BUDGET_RATIO) return "low";
+    return "ok";
+}
+
+/**
+ * Drops indexers that hit their limit and keeps those close to it in reserve,
+ * only searching them when no indexer with budget left remains.
+ */
+export function selectIndexersByBudget(indexers: Indexer[], now = Date.now()): Indexer[] {
+    const ok: Indexer[] = [];
+    const low: Indexer[] = [];
+
+    for (const indexer of indexers) {
+        const budget = getIndexerBudget(indexer, now);
+        if (budget === "ok") ok.push(indexer);
+        else if (budget === "low") low.push(indexer);
+        else console.log(`[Limits] Skipping ${indexer.name}, daily limit reached`);
+    }
+
+    if (ok.length && low.length) {
+        console.log(`[Limits] Holding back ${low.map((i) => i.name).join(", ")}, close to the daily limit`);
+    }
+    return ok.length ? ok : low;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Accounting
+// ═══════════════════════════════════════════════════════════════════
+
+export function recordIndexerApiHit(indexer: Indexer, now = Date.now()): void {
+    incrementIndexerUsage(indexer.id, "api", getUsageWindowStart(indexer.limit_reset_hour ?? 0, now));
+}
+
+/**
+ * Matches an NZB download link to a direct indexer by its API key or host.
+ * Links handed out by Prowlarr or NZBHydra2 point at those apps and match nothing.
+ */
+export function findIndexerForDownload(downloadUrl: string): Indexer | undefined {
+    let url: URL;
+    try {
+        url = new URL(downloadUrl);
+    } catch {
+        return undefined;
+    }
+
+    const key = url.searchParams.get("apikey") ?? url.searchParams.get("r");
+    const indexers = getAllIndexers();
+    return indexers.find((i) => key && i.api_key === key) ??
+        indexers.find((i) => {
+            try {
+                return new URL(i.url).hostname === url.hostname;
+            } catch {
+                return false;
+            }
+        });
+}
+
+export function recordIndexerGrab(downloadUrl: string, now = Date.now()): void {
+    const indexer = findIndexerForDownload(downloadUrl);
+    if (!indexer) return;
+    incrementIndexerUsage(indexer.id, "grab", getUsageWindowStart(indexer.limit_reset_hour ?? 0, now));
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Caps
+// ═══════════════════════════════════════════════════════════════════
+
+function readNumericAttribute(text: string, name: string): number | undefined {
+    // XML attribute (apimax="100") or its JSON rendering ("apimax":"100")
+    const match = text.match(new RegExp(`["']?${name}["']?\\s*[=:]\\s*["']?(\\d+)`, "i"));
+    const value = match ? parseInt(match[1], 10) : NaN;
+    return value > 0 ? value : undefined;
+}
+
+/**
+ * nZEDb/NNTmux style indexers advertise their limits as `apimax`/`grabmax` attributes
+ * in the caps response, most others leave them out and have to be set by hand.
+ */
+export function parseCapsLimits(capsText: string): CapsLimits {
+    return {
+        apiLimit: readNumericAttribute(capsText, "apimax"),
+        grabLimit: readNumericAttribute(capsText, "grabmax"),
+    };
+}
+
+/**
+ * Stores the limits an indexer advertises in its caps. Limits it leaves out are kept as they are.
+ */
+export function applyCapsLimits(indexer: Indexer, capsText: string): CapsLimits {
+    const caps = parseCapsLimits(capsText);
+    if (caps.apiLimit || caps.grabLimit) {
+        setIndexerLimits(
+            indexer.id,
+            caps.apiLimit ?? indexer.api_limit ?? 0,
+            caps.grabLimit ?? indexer.grab_limit ?? 0,
+            indexer.limit_reset_hour ?? 0,
+        );
+    }
+    return caps;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Display
+// ═══════════════════════════════════════════════════════════════════
+
+export function formatIndexerUsage(indexer: Indexer, now = Date.now()): string {
+    const usage = getCurrentUsage(indexer, now);
+    const api = `${usage.api}/${indexer.api_limit || "∞"}`;
+    const grabs = `${usage.grabs}/${indexer.grab_limit || "∞"}`;
+    return `${api} api · ${grabs} grabs`;
+}
@@ -0,0 +1,47 @@
+/**
+ * Caps how many background jobs of one kind run at once. Jobs over the limit wait their turn
+ * in order. The limit is read on every start so setting changes apply without a restart.
+ */
+export class JobBudget {
+    private running = 0;
+    private waiting: (() => void)[] = [];
+
+    constructor(private readonly limit: () => number) { }
+
+    async run<T>(fn: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+        while (this.running >= this.limit()) {
+            signal?.throwIfAborted();
+            await this.wait(signal);
+        }
+        if (signal?.aborted) {
+            // Woken but not taking the slot, the next waiter gets it instead
+            this.waiting.shift()?.();
+            signal.throwIfAborted();
+        }
+
+        this.running++;
+        try {
+            return await fn();
+        } finally {
+            this.running--;
+            this.waiting.shift()?.();
+        }
+    }
+
+    /** Resolves when a slot frees up, an abort leaves the queue so it never swallows a wake-up. */
+    private wait(signal?: AbortSignal): Promise<void> {
+        return new Promise<void>((resolve, reject) => {
+            const wake = () => {
+                signal?.removeEventListener("abort", onAbort);
+                resolve();
+            };
+            const onAbort = () => {
+                const at = this.waiting.indexOf(wake);
+                if (at !== -1) this.waiting.splice(at, 1);
+                reject(signal!.reason);
+            };
+            this.waiting.push(wake);
+            signal?.addEventListener("abort", onAbort, { once: true });
+        });
+    }
+}
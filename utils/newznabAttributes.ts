@@ -0,0 +1,94 @@
+// ═══════════════════════════════════════════════════════════════════
+// Types
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * The `newznab:attr` values carried from search results to the stream card and ranking.
+ */
+export interface NewznabAttributes {
+    grabs?: number;
+    comments?: number;
+    files?: number;
+    passworded?: boolean;
+    mayBePassworded?: boolean; // `password=2`, encrypted or unknown archives
+    usenetDate?: string; // ISO, when the post hit Usenet
+    poster?: string;
+    group?: string; // newsgroup, e.g. alt.binaries.movies
+    imdbId?: string; // tt-prefixed
+    tvdbId?: string;
+}
+
+export interface RawNewznabAttr {
+    "@attributes"?: { name?: string; value?: string };
+    name?: string;
+    value?: string;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Parsing
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * Name/value pairs of `newznab:attr`, whether a JSON feed nests them in `@attributes`
+ * or lists them flat like the XML parser does. Names are lowercased.
+ */
+export function collectNewznabAttrs(attrs: RawNewznabAttr[] | RawNewznabAttr | undefined): Map<string, string> {
+    const map = new Map<string, string>();
+    if (!attrs) return map;
+
+    const list = Array.isArray(attrs) ? attrs : [attrs];
+    for (let i = 0; i < list.length; i++) {
+        const a = list[i]["@attributes"] ?? list[i];
+        if (a.name && a.value !== undefined) map.set(a.name.toLowerCase(), String(a.value));
+    }
+    return map;
+}
+
+export function toCount(value: string | number | undefined | null): number | undefined {
+    if (value === undefined || value === null || value === "") return undefined;
+    const n = typeof value === "number" ? value : parseInt(value, 10);
+    return Number.isFinite(n) && n >= 0 ? n : undefined;
+}
+
+export function normalizeImdbId(value: string | number | undefined | null): string | undefined {
+    if (value === undefined || value === null) return undefined;
+    const raw = String(value);
+    if (!raw || /^(tt)?0*$/.test(raw)) return undefined;
+    return raw.startsWith("tt") ? raw : `tt${raw.padStart(7, "0")}`;
+}
+
+function toIsoDate(value: string | undefined): string | undefined {
+    if (!value) return undefined;
+    const ms = new Date(value).getTime();
+    return Number.isFinite(ms) ? new Date(ms).toISOString() : undefined;
+}
+
+/**
+ * Newznab `password`: 0 none, 1 passworded, 2 contains encrypted/unknown archives.
+ */
+export function readNewznabAttributes(attrs: Map<string, string>): NewznabAttributes {
+    const password = attrs.get("password");
+    const tvdbId = attrs.get("tvdbid");
+
+    return {
+        grabs: toCount(attrs.get("grabs")),
+        comments: toCount(attrs.get("comments")),
+        files: toCount(attrs.get("files")),
+        passworded: password === undefined ? undefined : password === "1",
+        mayBePassworded: password === "2" || undefined,
+        usenetDate: toIsoDate(attrs.get("usenetdate")),
+        poster: attrs.get("poster") || undefined,
+        group: attrs.get("group") || undefined,
+        imdbId: normalizeImdbId(attrs.get("imdb")),
+        tvdbId: tvdbId && tvdbId !== "0" ? tvdbId : undefined,
+    };
+}
+
+/**
+ * Whole days since `publishDate`, 0 when it is missing or unparseable.
+ */
+export function ageInDays(publishDate: string | undefined, now = Date.now()): number {
+    const ms = publishDate ? new Date(publishDate).getTime() : NaN;
+    if (!Number.isFinite(ms)) return 0;
+    return Math.max(0, Math.floor((now - ms) / 86400000));
+}
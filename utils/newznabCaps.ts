@@ -0,0 +1,187 @@
+import { setIndexerCaps, type Indexer } from "./sqlite.ts";
+import { applyCapsLimits, type CapsLimits } from "./indexerLimits.ts";
+import { readXmlAttributes } from "./newznabXml.ts";
+
+// ═══════════════════════════════════════════════════════════════════
+// Types & Constants
+// ═══════════════════════════════════════════════════════════════════
+
+export interface SearchCapability {
+    available: boolean;
+    params: string[]; // supportedParams, e.g. q, imdbid, tvdbid, season, ep
+}
+
+export interface NewznabCategory {
+    id: string;
+    name: string;
+    subcats: { id: string; name: string }[];
+}
+
+export interface IndexerCaps {
+    search: SearchCapability;
+    tvSearch: SearchCapability;
+    movieSearch: SearchCapability;
+    movieCategories: string[];
+    tvCategories: string[];
+    categories: NewznabCategory[];
+}
+
+// What every search assumed before caps were read, still used until they are
+export const DEFAULT_CAPS: IndexerCaps = {
+    search: { available: true, params: ["q"] },
+    tvSearch: { available: true, params: ["q", "tvdbid", "season", "ep"] },
+    movieSearch: { available: true, params: ["q", "imdbid"] },
+    movieCategories: ["2000", "2030", "2040"],
+    tvCategories: ["5000", "5030", "5040"],
+    categories: [],
+};
+
+const CAPS_MAX_AGE_MS = 7 * 24 * 60 * 60_000;
+const CAPS_RETRY_MS = 60 * 60_000; // after a failed fetch
+
+const CATEGORY_RX = /<category\b([^>]*?)(?:\/>|>([\s\S]*?)<\/category>)/gi;
+const SUBCAT_RX = /<subcat\b([^>]*?)\/?>/gi;
+
+// Subcategories worth searching, the rest (foreign, sport, 3D, DVD...) only adds noise
+const VIDEO_SUBCAT_RX = /\b(?:sd|hd|uhd|4k|2160p?|blu-?ray|web(?:-?dl)?|x265|hevc|anime)\b/i;
+
+const parsedCaps = new Map<number, { fetchedAt: number; caps: IndexerCaps }>();
+const refreshing = new Set<number>();
+const lastAttempt = new Map<number, number>();
+
+// ═══════════════════════════════════════════════════════════════════
+// Parsing
+// ═══════════════════════════════════════════════════════════════════
+
+function readSearchCapability(xml: string, tag: string): SearchCapability {
+    const match = xml.match(new RegExp(`<${tag}\\b([^>]*?)\\/?>`, "i"));
+    if (!match) return { available: false, params: [] };
+
+    const attrs = readXmlAttributes(match[1]);
+    return {
+        available: attrs.available?.toLowerCase() === "yes",
+        params: (attrs.supportedparams ?? "q").split(",").map((p) => p.trim().toLowerCase()).filter(Boolean),
+    };
+}
+
+function readCategories(xml: string): NewznabCategory[] {
+    const categories: NewznabCategory[] = [];
+    for (const [, rawAttrs, body] of xml.matchAll(CATEGORY_RX)) {
+        const { id, name } = readXmlAttributes(rawAttrs);
+        if (!id) continue;
+
+        const subcats = [...(body ?? "").matchAll(SUBCAT_RX)]
+            .map(([, subAttrs]) => readXmlAttributes(subAttrs))
+            .filter((s) => s.id)
+            .map((s) => ({ id: s.id, name: s.name ?? "" }));
+
+        categories.push({ id, name: name ?? "", subcats });
+    }
+    return categories;
+}
+
+/**
+ * Parent categories are picked by the standard Newznab range (2000s movies, 5000s TV) or by
+ * name for indexers with custom ids. Searching the parent already covers most indexers, the
+ * video subcategories are added for those that only match exact ids.
+ */
+function pickCategories(categories: NewznabCategory[], range: string, nameRx: RegExp): string[] {
+    const ids: string[] = [];
+    for (const category of categories) {
+        const inRange = category.id.length === 4 && category.id.startsWith(range);
+        if (!inRange && !nameRx.test(category.name)) continue;
+
+        ids.push(category.id);
+        for (const sub of category.subcats) {
+            if (VIDEO_SUBCAT_RX.test(sub.name)) ids.push(sub.id);
+        }
+    }
+    return ids;
+}
+
+export function parseCaps(xml: string): IndexerCaps | null {
+    if (!/<caps\b/i.test(xml)) return null;
+
+    const categories = readCategories(xml);
+    const movieCategories = pickCategories(categories, "2", /^(?:movies?|films?)\b/i);
+    const tvCategories = pickCategories(categories, "5", /^(?:tv|series|shows?)\b/i);
+
+    return {
+        search: readSearchCapability(xml, "search"),
+        tvSearch: readSearchCapability(xml, "tv-search"),
+        movieSearch: readSearchCapability(xml, "movie-search"),
+        movieCategories: movieCategories.length ? movieCategories : DEFAULT_CAPS.movieCategories,
+        tvCategories: tvCategories.length ? tvCategories : DEFAULT_CAPS.tvCategories,
+        categories,
+    };
+}
+
+export function supportsParam(capability: SearchCapability, param: string): boolean {
+    return capability.available && capability.params.includes(param);
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Lookup & Refresh
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * Parsed caps of an indexer, or the defaults while they were never read. Parsing is
+ * memoized per fetch so searches do not re-parse the XML every time.
+ */
+export function getIndexerCaps(indexer: Indexer): IndexerCaps {
+    if (!indexer.caps_xml) return DEFAULT_CAPS;
+
+    const cached = parsedCaps.get(indexer.id);
+    if (cached?.fetchedAt === indexer.caps_fetched_at) return cached.caps;
+
+    const caps = parseCaps(indexer.caps_xml) ?? DEFAULT_CAPS;
+    parsedCaps.set(indexer.id, { fetchedAt: indexer.caps_fetched_at, caps });
+    return caps;
+}
+
+export async function fetchCapsXml(baseUrl: string, apiKey: string): Promise<string> {
+    const url = `${baseUrl.replace(/\/$/, "")}/api?t=caps&apikey=${encodeURIComponent(apiKey)}`;
+    const res = await fetch(url, { signal: AbortSignal.timeout(10000) });
+    if (!res.ok) {
+        await res.body?.cancel();
+        throw new Error(`Caps request failed: HTTP ${res.status}`);
+    }
+
+    const xml = await res.text();
+    if (!/<caps\b/i.test(xml)) throw new Error("Response is not a Newznab caps document");
+    return xml;
+}
+
+/**
+ * Reads the caps of an indexer and stores them, along with any limits they advertise.
+ */
+export async function refreshIndexerCaps(indexer: Indexer): Promise<{ caps: IndexerCaps; limits: CapsLimits }> {
+    const xml = await fetchCapsXml(indexer.url, indexer.api_key);
+    const fetchedAt = Date.now();
+
+    setIndexerCaps(indexer.id, xml, fetchedAt);
+    const limits = applyCapsLimits(indexer, xml);
+
+    const caps = parseCaps(xml) ?? DEFAULT_CAPS;
+    parsedCaps.set(indexer.id, { fetchedAt, caps });
+    return { caps, limits };
+}
+
+/**
+ * Refreshes missing or week-old caps in the background. The current search keeps
+ * using what is stored (or the defaults) instead of waiting on the extra request.
+ */
+export function refreshStaleCaps(indexers: Indexer[], now = Date.now()): void {
+    for (const indexer of indexers) {
+        if (now - (indexer.caps_fetched_at ?? 0) < CAPS_MAX_AGE_MS) continue;
+        if (refreshing.has(indexer.id) || now - (lastAttempt.get(indexer.id) ?? 0) < CAPS_RETRY_MS) continue;
+
+        refreshing.add(indexer.id);
+        lastAttempt.set(indexer.id, now);
+
+        refreshIndexerCaps(indexer)
+            .then(() => console.log(`[Caps] Updated capabilities of ${indexer.name}`))
+            .catch((err) => console.error(`[Caps] ${indexer.name}:`, err instanceof Error ? err.message : err))
+            .finally(() => refreshing.delete(indexer.id));
+    }
+}
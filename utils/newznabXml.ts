@@ -0,0 +1,129 @@
+// ═══════════════════════════════════════════════════════════════════
+// Types & Constants
+// ═══════════════════════════════════════════════════════════════════
+
+export interface NewznabXmlItem {
+    title: string;
+    guid: string;
+    link: string;
+    pubDate: string;
+    enclosure?: { length?: string };
+    attr: { name: string; value: string }[];
+}
+
+export interface NewznabXmlError {
+    code: string;
+    description: string;
+}
+
+const ATTRIBUTE_RX = /([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+const ENTITY_RX = /&(?:#(\d+)|#x([0-9a-f]+)|(amp|lt|gt|quot|apos));/gi;
+const CDATA_RX = /^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/;
+// newznab:attr, also nntmux:attr and torznab:attr from Newznab-compatible forks
+const NAMESPACED_ATTR_RX = /<[\w-]+:attr\b([^>]*?)\/?>/gi;
+const ERROR_RX = /<error\b([^>]*?)\/?>/i;
+
+const NAMED_ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" };
+
+// Anything before the first item larger than this is not a Newznab feed worth waiting on
+const MAX_PREAMBLE_CHARS = 64 * 1024;
+
+// ═══════════════════════════════════════════════════════════════════
+// Helpers
+// ═══════════════════════════════════════════════════════════════════
+
+export function decodeXmlEntities(text: string): string {
+    return text.replace(ENTITY_RX, (_m, dec, hex, named) => {
+        if (dec) return String.fromCodePoint(parseInt(dec, 10));
+        if (hex) return String.fromCodePoint(parseInt(hex, 16));
+        return NAMED_ENTITIES[named.toLowerCase()];
+    });
+}
+
+/**
+ * Attributes of a start tag as a lowercase-keyed map, values entity-decoded.
+ */
+export function readXmlAttributes(raw: string): Record<string, string> {
+    const attrs: Record<string, string> = {};
+    for (const [, name, double, single] of raw.matchAll(ATTRIBUTE_RX)) {
+        attrs[name.toLowerCase()] = decodeXmlEntities(double ?? single ?? "");
+    }
+    return attrs;
+}
+
+function readElementText(xml: string, tag: string): string {
+    const match = xml.match(new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)<\\/${tag}>`, "i"));
+    if (!match) return "";
+
+    const cdata = match[1].match(CDATA_RX);
+    return cdata ? cdata[1].trim() : decodeXmlEntities(match[1]).trim();
+}
+
+function parseXmlItem(xml: string): NewznabXmlItem {
+    const enclosure = xml.match(/<enclosure\b([^>]*?)\/?>/i);
+    const attr = [...xml.matchAll(NAMESPACED_ATTR_RX)]
+        .map(([, raw]) => readXmlAttributes(raw))
+        .filter((a) => a.name)
+        .map((a) => ({ name: a.name.toLowerCase(), value: a.value ?? "" }));
+
+    return {
+        title: readElementText(xml, "title"),
+        guid: readElementText(xml, "guid"),
+        link: readElementText(xml, "link"),
+        pubDate: readElementText(xml, "pubDate"),
+        enclosure: enclosure ? { length: readXmlAttributes(enclosure[1]).length } : undefined,
+        attr,
+    };
+}
+
+function readXmlError(xml: string): NewznabXmlError | null {
+    const match = xml.match(ERROR_RX);
+    if (!match) return null;
+
+    const attrs = readXmlAttributes(match[1]);
+    return { code: attrs.code ?? "", description: attrs.description ?? "Unknown error" };
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Streaming Parser
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * Parses a Newznab RSS feed chunk by chunk. Each `<item>` is parsed and dropped from the
+ * buffer as soon as its closing tag arrives, so large feeds never sit in memory as a whole.
+ * An `<error>` document (bad key, limits) is returned instead of items.
+ */
+export async function parseNewznabXmlStream(
+    chunks: AsyncIterable<string>,
+): Promise<{ items: NewznabXmlItem[]; error: NewznabXmlError | null }> {
+    const items: NewznabXmlItem[] = [];
+    let buffer = "";
+    let seenItem = false;
+
+    for await (const chunk of chunks) {
+        buffer += chunk;
+
+        while (true) {
+            const start = buffer.search(/<item[\s>]/i);
+            if (start === -1) break;
+
+            const end = buffer.indexOf("</item>", start);
+            if (end === -1) {
+                buffer = buffer.slice(start); // keep the partial item only
+                break;
+            }
+
+            items.push(parseXmlItem(buffer.slice(start, end)));
+            buffer = buffer.slice(end + 7);
+            seenItem = true;
+        }
+
+        if (!seenItem && buffer.length > MAX_PREAMBLE_CHARS) {
+            const error = readXmlError(buffer);
+            if (error) return { items, error };
+            buffer = buffer.slice(-1024); // a tag may straddle the cut
+        }
+    }
+
+    return { items, error: seenItem ? null : readXmlError(buffer) };
+}
@@ -0,0 +1,163 @@
+import { redis } from "./redis.ts";
+import { getUsableNntpServers } from "./sqlite.ts";
+import { loadNzb } from "./nzbFetch.ts";
+import { summarizeNzb, type NzbSegment, type ParsedNzb } from "./nzbParser.ts";
+import { getNntpPool, type NntpServerConfig } from "../lib/nntp.ts";
+import type { NzbCheckItem, NzbCheckStatus } from "../lib/nzbcheck.ts";
+
+// ═══════════════════════════════════════════════════════════════════
+// Types & Constants
+// ═══════════════════════════════════════════════════════════════════
+
+export interface AvailabilityResult {
+    checked: number;
+    available: number;
+    percent: number;
+    isComplete: boolean;
+}
+
+const MAX_CHECK_CONNECTIONS = 4; // per server, leaves the rest of the account to NZBDav
+const COMPLETE_TTL_SECONDS = 24 * 60 * 60; // takedowns can still happen
+const INCOMPLETE_TTL_SECONDS = 7 * 24 * 60 * 60; // missing articles never come back
+const PAR2_RX = /\.par2$/i;
+
+// ═══════════════════════════════════════════════════════════════════
+// Sampling
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * Evenly spaced segments across the data files, always including the first and last one.
+ * Par2 files are only sampled when the NZB has nothing else.
+ */
+export function sampleSegments(nzb: ParsedNzb, count: number): NzbSegment[] {
+    const dataFiles = nzb.files.filter((f) => !PAR2_RX.test(f.fileName));
+    const segments = (dataFiles.length ? dataFiles : nzb.files).flatMap((f) => f.segments);
+    if (segments.length <= count) return segments;
+    if (count <= 1) return segments.slice(0, 1);
+
+    const step = (segments.length - 1) / (count - 1);
+    return Array.from({ length: count }, (_, i) => segments[Math.round(i * step)]);
+}
+
+/**
+ * Missing articles are fine as long as par2 can rebuild them, checked against the share
+ * of the sample that is gone.
+ */
+export function isCompleteEnough(percent: number, par2Percent: number): boolean {
+    return 100 - percent <= par2Percent;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// STAT Checks
+// ═══════════════════════════════════════════════════════════════════
+
+async function statOnServer(server: NntpServerConfig, messageIds: string[]): Promise<Set<string>> {
+    const pool = getNntpPool(server);
+    const found = new Set<string>();
+    let next = 0;
+
+    const worker = () =>
+        pool.use(async (conn) => {
+            while (next < messageIds.length) {
+                const id = messageIds[next++];
+                if (await conn.stat(id)) found.add(id);
+            }
+        });
+
+    await Promise.all(Array.from({ length: Math.min(MAX_CHECK_CONNECTIONS, messageIds.length) }, worker));
+    return found;
+}
+
+/**
+ * STATs the sampled message ids on the primary server, then asks backup servers only for
+ * what it was missing. Servers that fail to answer are skipped, not counted as missing.
+ */
+export async function checkArticles(servers: NntpServerConfig[], messageIds: string[]): Promise<number> {
+    let missing = [...new Set(messageIds)];
+    let answered = false;
+
+    for (const server of servers) {
+        if (!missing.length) break;
+        try {
+            const found = await statOnServer(server, missing);
+            missing = missing.filter((id) => !found.has(id));
+            answered = true;
+        } catch (err) {
+            console.warn(`[NNTP Check] ${server.host}:`, err instanceof Error ? err.message : err);
+        }
+    }
+
+    if (!answered) throw new Error("No NNTP server answered");
+    return messageIds.length - missing.length;
+}
+
+export async function checkNzbArticles(
+    nzb: ParsedNzb,
+    servers: NntpServerConfig[],
+    sampleSize: number,
+): Promise<AvailabilityResult> {
+    const sample = sampleSegments(nzb, sampleSize);
+    if (!sample.length) return { checked: 0, available: 0, percent: 0, isComplete: false };
+
+    const available = await checkArticles(servers, sample.map((s) => s.messageId));
+    const percent = Math.round((available / sample.length) * 1000) / 10;
+    return {
+        checked: sample.length,
+        available,
+        percent,
+        isComplete: isCompleteEnough(percent, summarizeNzb(nzb).par2Percent),
+    };
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Local Status Store
+// ═══════════════════════════════════════════════════════════════════
+
+function statusKey(item: NzbCheckItem): string {
+    return `nzbstatus:${item.source_indexer.toLowerCase()}:${item.file_id}`;
+}
+
+/**
+ * Verdicts of local checks, keyed like NZBCheck answers so both merge into one lookup.
+ */
+export async function getLocalNzbStatuses(items: NzbCheckItem[]): Promise<Record<string, NzbCheckStatus>> {
+    const out: Record<string, NzbCheckStatus> = {};
+    if (!items.length) return out;
+
+    const raw = await redis.mget(items.map(statusKey));
+    for (let i = 0; i < items.length; i++) {
+        if (raw[i]) out[`${items[i].source_indexer.toLowerCase()}:${items[i].file_id}`] = JSON.parse(raw[i]!);
+    }
+    return out;
+}
+
+async function saveLocalNzbStatus(item: NzbCheckItem, isComplete: boolean): Promise<void> {
+    const status: NzbCheckStatus = { is_complete: isComplete, cache_hit: true, last_updated: new Date().toISOString() };
+    await redis.setex(statusKey(item), isComplete ? COMPLETE_TTL_SECONDS : INCOMPLETE_TTL_SECONDS, JSON.stringify(status));
+}
+
+/**
+ * Checks one release against the configured NNTP servers and stores the verdict.
+ * Returns null when it could not be checked (no servers, NZB or server errors).
+ */
+export async function verifyNzbCompleteness(
+    item: NzbCheckItem,
+    hash: string,
+    downloadUrl: string,
+    sampleSize: number,
+): Promise<boolean | null> {
+    const servers = getUsableNntpServers();
+    if (!servers.length) return null;
+
+    try {
+        const nzb = await loadNzb(hash, downloadUrl, AbortSignal.timeout(8000));
+        const result = await checkNzbArticles(nzb, servers, sampleSize);
+        console.log(`[NNTP Check] ${item.source_indexer}:${item.file_id} ${result.available}/${result.checked} articles (${result.percent}%)`);
+
+        await saveLocalNzbStatus(item, result.isComplete);
+        return result.isComplete;
+    } catch (err) {
+        console.warn("[NNTP Check] Failed:", err instanceof Error ? err.message : err);
+        return null;
+    }
+}
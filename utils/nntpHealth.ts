@@ -0,0 +1,160 @@
+import { Config } from "../env.ts";
+import {
+    getAllNntpServerHealth,
+    getAllNntpServers,
+    saveNntpServerHealth,
+    type NntpHealthStatus,
+    type NntpServer,
+    type NntpServerHealth,
+} from "./sqlite.ts";
+import { NntpConnection, NntpError } from "../lib/nntp.ts";
+
+// ═══════════════════════════════════════════════════════════════════
+// Constants
+// ═══════════════════════════════════════════════════════════════════
+
+const PROBE_INTERVAL_MS = 10 * 60_000;
+const FAILED_PROBE_INTERVAL_MS = 2 * 60_000; // dead servers are retried sooner so they come back quickly
+const TICK_MS = 60_000;
+const FIRST_PROBE_DELAY_MS = 5_000;
+const OPEN_TIMEOUT_MS = 15_000;
+const DAY_MS = 24 * 60 * 60_000;
+
+// A large, long-lived binary group: its oldest article tells how far back the server goes
+const RETENTION_GROUP = "alt.binaries.boneless";
+
+const AUTH_FAILURE_CODES = new Set([452, 481, 482, 502]);
+
+// ═══════════════════════════════════════════════════════════════════
+// Probe
+// ═══════════════════════════════════════════════════════════════════
+
+async function openWithTimeout(server: NntpServer): Promise<NntpConnection> {
+    const opening = NntpConnection.open(server);
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    try {
+        return await Promise.race([
+            opening,
+            new Promise<never>((_, reject) => {
+                timer = setTimeout(() => reject(new Deno.errors.TimedOut("Connection timed out")), OPEN_TIMEOUT_MS);
+            }),
+        ]);
+    } catch (err) {
+        // A connect that finishes after the timeout must not leak its socket
+        opening.then((conn) => conn.close()).catch(() => { });
+        throw err;
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+/**
+ * Days between now and the oldest article the server still has in the retention group.
+ * Null when the server does not carry the group or the article has no usable date.
+ */
+async function measureRetention(conn: NntpConnection, now: number): Promise<number | null> {
+    try {
+        const group = await conn.group(RETENTION_GROUP);
+        const headers = await conn.head(group.low);
+        const posted = headers?.date ? Date.parse(headers.date) : NaN;
+        return Number.isFinite(posted) ? Math.max(0, Math.floor((now - posted) / DAY_MS)) : null;
+    } catch {
+        return null;
+    }
+}
+
+function classifyFailure(err: unknown): NntpHealthStatus {
+    if (err instanceof NntpError && err.code && AUTH_FAILURE_CODES.has(err.code)) return "auth_failed";
+    if (err instanceof Deno.errors.ConnectionRefused || err instanceof Deno.errors.TimedOut ||
+        err instanceof Deno.errors.NotFound || err instanceof Deno.errors.ConnectionReset ||
+        err instanceof Deno.errors.InvalidData) return "unreachable";
+    return "error";
+}
+
+/**
+ * Logs into the server and measures how long connect, greeting and login take, then
+ * estimates its retention.
+ */
+export async function probeNntpServer(server: NntpServer, previous?: NntpServerHealth): Promise<NntpServerHealth> {
+    const started = Date.now();
+
+    try {
+        const conn = await openWithTimeout(server);
+        const latency = Date.now() - started;
+        const retention = await measureRetention(conn, started);
+        await conn.quit();
+
+        return {
+            server_id: server.id,
+            status: "ok",
+            latency_ms: latency,
+            retention_days: retention ?? previous?.retention_days ?? null,
+            consecutive_failures: 0,
+            last_error: null,
+            last_success_at: started,
+            checked_at: started,
+        };
+    } catch (err) {
+        return {
+            server_id: server.id,
+            status: classifyFailure(err),
+            latency_ms: null,
+            retention_days: previous?.retention_days ?? null,
+            consecutive_failures: (previous?.consecutive_failures ?? 0) + 1,
+            last_error: err instanceof Error ? err.message : String(err),
+            last_success_at: previous?.last_success_at ?? null,
+            checked_at: started,
+        };
+    }
+}
+
+/**
+ * Probes active servers whose last probe is due. Failed servers are due sooner.
+ */
+export async function probeDueNntpServers(now = Date.now()): Promise<NntpServerHealth[]> {
+    const health = new Map(getAllNntpServerHealth().map((h) => [h.server_id, h]));
+    const due = getAllNntpServers().filter((server) => {
+        if (!server.active) return false;
+        const previous = health.get(server.id);
+        const interval = previous?.status === "ok" ? PROBE_INTERVAL_MS : FAILED_PROBE_INTERVAL_MS;
+        return now - (previous?.checked_at ?? 0) >= interval;
+    });
+
+    const results = await Promise.all(due.map((server) => probeNntpServer(server, health.get(server.id))));
+    for (let i = 0; i < results.length; i++) {
+        const result = results[i];
+        saveNntpServerHealth(result);
+
+        const name = due[i].name;
+        if (result.status === "ok") {
+            console.log(`[NNTP Health] ${name}: ok in ${result.latency_ms}ms, retention ${result.retention_days ?? "?"} days`);
+        } else {
+            console.warn(`[NNTP Health] ${name}: ${result.status} (${result.last_error})`);
+        }
+    }
+    return results;
+}
+
+/**
+ * Schedules background probes. No-op unless something uses the NNTP servers.
+ */
+export function startNntpHealthProber(): void {
+    if (!Config.USE_STREMIO_NNTP && !Config.NNTP_CHECK && !Config.BUILTIN_STREAMER) return;
+
+    let running = false;
+    const tick = async () => {
+        if (running) return;
+        running = true;
+        try {
+            await probeDueNntpServers();
+        } catch (err) {
+            console.error("[NNTP Health] Probe error:", err instanceof Error ? err.message : err);
+        } finally {
+            running = false;
+        }
+    };
+
+    setTimeout(tick, FIRST_PROBE_DELAY_MS);
+    setInterval(tick, TICK_MS);
+}
@@ -0,0 +1,125 @@
+import { redis } from "./redis.ts";
+import { md5 } from "./md5Encoder.ts";
+import { recordIndexerGrab } from "./indexerLimits.ts";
+import { parseNzb, type ParsedNzb } from "./nzbParser.ts";
+
+// ═══════════════════════════════════════════════════════════════════
+// Constants
+// ═══════════════════════════════════════════════════════════════════
+
+// Set of explicit redirect status codes
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+const CACHE_TTL = 21600; // 6 hours
+// Inspected NZBs are kept long enough for NZBDav to fetch them through the proxy without a second grab
+const NZB_TEXT_TTL = 3600;
+const NZB_TEXT_MAX_CHARS = 20 * 1024 * 1024;
+
+export class NzbFetchError extends Error {
+    constructor(message: string, public status: number) {
+        super(message);
+        this.name = "NzbFetchError";
+    }
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Fetch
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * Downloads an NZB from its indexer, remembering where redirects lead for `hash` so the
+ * next fetch skips the hop. Resolves with an ok response whose body is unread, or throws
+ * NzbFetchError carrying the status to pass on. Every successful fetch counts as a grab.
+ */
+export async function fetchUpstreamNzb(hash: string, downloadUrl: string, signal?: AbortSignal): Promise<Response> {
+    const resolvedKey = `streams:${hash}:resolved`;
+    const cachedResolvedUrl = await redis.get(resolvedKey);
+
+    let finalResponse: Response;
+
+    if (cachedResolvedUrl) {
+        // Pass the signal so client disconnects abort the fetch
+        finalResponse = await fetch(cachedResolvedUrl, { signal });
+    } else {
+        const probeResp = await fetch(downloadUrl, {
+            redirect: "manual",
+            signal
+        });
+
+        if (REDIRECT_STATUSES.has(probeResp.status)) {
+            const location = probeResp.headers.get("location");
+
+            // CRITICAL: Release the socket by canceling the unread body
+            await probeResp.body?.cancel();
+
+            if (!location) {
+                throw new NzbFetchError("Redirect missing Location header", 502);
+            }
+
+            // Handle potential relative redirects safely
+            const absoluteLocation = new URL(location, downloadUrl).toString();
+
+            await redis.setex(resolvedKey, CACHE_TTL, absoluteLocation);
+            finalResponse = await fetch(absoluteLocation, { signal });
+
+        } else if (probeResp.status === 200) {
+            finalResponse = probeResp;
+            await redis.setex(resolvedKey, CACHE_TTL, downloadUrl);
+
+        } else {
+            // CRITICAL: Release the socket
+            await probeResp.body?.cancel();
+            throw new NzbFetchError(`Unexpected upstream status: ${probeResp.status}`, 502);
+        }
+    }
+
+    if (!finalResponse.ok) {
+        // Consider clearing the cache on 401, 403, and 410 as well as 404
+        if ([401, 403, 404, 410].includes(finalResponse.status)) {
+            await redis.del(resolvedKey);
+        }
+        const errorText = await finalResponse.text(); // Reads and completes body
+        throw new NzbFetchError(errorText, finalResponse.status);
+    }
+
+    // Counts against the direct indexer's grab limit
+    try {
+        recordIndexerGrab(downloadUrl);
+    } catch (err) {
+        console.error("[NZB Fetch] Failed to count grab:", err);
+    }
+
+    return finalResponse;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// NZB Documents
+// ═══════════════════════════════════════════════════════════════════
+
+function nzbTextKey(downloadUrl: string): string {
+    return `nzbfile:${md5(downloadUrl)}`;
+}
+
+export async function getCachedNzbText(downloadUrl: string): Promise<string | null> {
+    return await redis.get(nzbTextKey(downloadUrl));
+}
+
+/**
+ * Full NZB text, from the short-lived cache when it was fetched recently.
+ */
+export async function fetchNzbText(hash: string, downloadUrl: string, signal?: AbortSignal): Promise<string> {
+    const cached = await getCachedNzbText(downloadUrl);
+    if (cached) return cached;
+
+    const res = await fetchUpstreamNzb(hash, downloadUrl, signal);
+    const text = await res.text();
+    if (text.length <= NZB_TEXT_MAX_CHARS) {
+        await redis.setex(nzbTextKey(downloadUrl), NZB_TEXT_TTL, text);
+    }
+    return text;
+}
+
+export async function loadNzb(hash: string, downloadUrl: string, signal?: AbortSignal): Promise<ParsedNzb> {
+    const nzb = parseNzb(await fetchNzbText(hash, downloadUrl, signal));
+    if (!nzb) throw new NzbFetchError("Response is not an NZB document", 502);
+    return nzb;
+}
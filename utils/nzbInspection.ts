@@ -0,0 +1,51 @@
+import { redis } from "./redis.ts";
+import { md5 } from "./md5Encoder.ts";
+import { loadNzb } from "./nzbFetch.ts";
+import { summarizeNzb, type NzbSummary } from "./nzbParser.ts";
+import { assessNzbFiles, type ReleaseVerdict } from "./releaseSafety.ts";
+
+// ═══════════════════════════════════════════════════════════════════
+// Types & Constants
+// ═══════════════════════════════════════════════════════════════════
+
+export interface NzbInspection {
+    summary: NzbSummary;
+    verdict: ReleaseVerdict;
+}
+
+const INSPECTION_TTL_SECONDS = 7 * 24 * 60 * 60; // an NZB never changes once posted
+const INSPECTION_TIMEOUT_MS = 8000;
+
+// ═══════════════════════════════════════════════════════════════════
+// Inspection
+// ═══════════════════════════════════════════════════════════════════
+
+export async function getCachedInspection(downloadUrl: string): Promise<NzbInspection | null> {
+    const cached = await redis.get(`nzb:${md5(downloadUrl)}`);
+    return cached ? JSON.parse(cached) as NzbInspection : null;
+}
+
+/**
+ * Fetches an NZB through the proxy's upstream logic and summarizes it: files, segments, real
+ * size, posters, groups, par2 coverage and a password verdict from the file names. Results are
+ * cached per NZB, a failed fetch returns null so callers carry on without it.
+ */
+export async function inspectNzb(hash: string, downloadUrl: string, signal?: AbortSignal): Promise<NzbInspection | null> {
+    const cached = await getCachedInspection(downloadUrl);
+    if (cached) return cached;
+
+    try {
+        const nzb = await loadNzb(hash, downloadUrl, signal ?? AbortSignal.timeout(INSPECTION_TIMEOUT_MS));
+        const summary = summarizeNzb(nzb);
+        const inspection: NzbInspection = {
+            summary,
+            verdict: assessNzbFiles(nzb.files.map((f) => f.fileName), summary.hasMetaPassword),
+        };
+
+        await redis.setex(`nzb:${md5(downloadUrl)}`, INSPECTION_TTL_SECONDS, JSON.stringify(inspection));
+        return inspection;
+    } catch (err) {
+        console.warn("[NZB Inspect] Failed:", err instanceof Error ? err.message : err);
+        return null;
+    }
+}
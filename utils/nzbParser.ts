@@ -0,0 +1,191 @@
+import { decodeXmlEntities, readXmlAttributes } from "./newznabXml.ts";
+
+// ═══════════════════════════════════════════════════════════════════
+// Types & Constants
+// ═══════════════════════════════════════════════════════════════════
+
+export interface NzbSegment {
+    number: number;
+    bytes: number;
+    messageId: string;
+}
+
+export interface NzbFile {
+    subject: string;
+    fileName: string;
+    poster: string;
+    date: number; // unix seconds
+    groups: string[];
+    segments: NzbSegment[];
+    expectedSegments?: number; // from the "(1/50)" counter in the subject
+    bytes: number;
+}
+
+export interface ParsedNzb {
+    meta: Record<string, string>; // <head> meta by type, e.g. title, password
+    files: NzbFile[];
+}
+
+export type NzbContentKind = "video" | "rar" | "iso" | "7z" | "zip" | "unknown" | "none";
+
+export interface NzbSummary {
+    fileCount: number;
+    segmentCount: number;
+    missingSegments: number; // segments the subjects announce but the NZB does not list
+    totalBytes: number;
+    dataBytes: number; // without par2 and extras (nfo, sfv, jpg...)
+    par2Percent: number; // recovery volumes relative to the data
+    posters: string[];
+    groups: string[];
+    content: NzbContentKind;
+    contentLabel: string; // e.g. "Single MKV", "RAR set (45 parts)"
+    hasVideoLike: boolean;
+    hasMetaPassword: boolean;
+}
+
+const FILE_RX = /<file\b([^>]*)>([\s\S]*?)<\/file>/gi;
+const GROUP_RX = /<group>([\s\S]*?)<\/group>/gi;
+const SEGMENT_RX = /<segment\b([^>]*)>([\s\S]*?)<\/segment>/gi;
+const META_RX = /<meta\b([^>]*)>([\s\S]*?)<\/meta>/gi;
+const QUOTED_NAME_RX = /"([^"]+)"/;
+const BARE_NAME_RX = /([^\s"/\\]+\.[a-z0-9]{2,4})(?=\s|$)/i;
+const PART_COUNTER_RX = /\((\d+)\/(\d+)\)\s*$/;
+
+const VIDEO_EXT_RX = /\.(mkv|mp4|avi|m4v|mov|wmv|ts|m2ts|mpe?g|webm)$/i;
+const RAR_RX = /\.(?:rar|r\d{2}|s\d{2}|\d{3})$/i;
+const ISO_RX = /\.(?:iso|img)$/i;
+const SEVEN_ZIP_RX = /\.7z(?:\.\d{3})?$/i;
+const ZIP_RX = /\.(?:zip|z\d{2})$/i;
+const PAR2_RX = /\.par2$/i;
+const PAR2_VOLUME_RX = /\.vol\d+\+\d+\.par2$/i;
+// Extensions that can never hold the video, anything else might (obfuscated names have none)
+const EXTRA_RX = /\.(?:par2|nfo|sfv|srr|srt|sub|idx|ass|jpe?g|png|gif|txt|url|html?|nzb|md5|sha1|exe|scr|bat|cmd|lnk|msi)$/i;
+
+// ═══════════════════════════════════════════════════════════════════
+// Parsing
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * File name from a yEnc subject: the quoted name when there is one, otherwise the
+ * first token that looks like a file name, otherwise the subject itself.
+ */
+export function readSubjectFileName(subject: string): string {
+    return subject.match(QUOTED_NAME_RX)?.[1] ?? subject.match(BARE_NAME_RX)?.[1] ?? subject.trim();
+}
+
+function readText(raw: string): string {
+    return decodeXmlEntities(raw.replace(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/, "$1")).trim();
+}
+
+function parseFile(rawAttrs: string, body: string): NzbFile {
+    const attrs = readXmlAttributes(rawAttrs);
+    const subject = attrs.subject ?? "";
+
+    const segments: NzbSegment[] = [];
+    let bytes = 0;
+    for (const [, segAttrs, messageId] of body.matchAll(SEGMENT_RX)) {
+        const seg = readXmlAttributes(segAttrs);
+        const size = parseInt(seg.bytes ?? "0", 10) || 0;
+        segments.push({ number: parseInt(seg.number ?? "0", 10) || 0, bytes: size, messageId: readText(messageId) });
+        bytes += size;
+    }
+    segments.sort((a, b) => a.number - b.number);
+
+    const counter = subject.match(PART_COUNTER_RX);
+    return {
+        subject,
+        fileName: readSubjectFileName(subject),
+        poster: attrs.poster ?? "",
+        date: parseInt(attrs.date ?? "0", 10) || 0,
+        groups: [...body.matchAll(GROUP_RX)].map(([, g]) => readText(g)).filter(Boolean),
+        segments,
+        expectedSegments: counter ? parseInt(counter[2], 10) : undefined,
+        bytes,
+    };
+}
+
+export function parseNzb(xml: string): ParsedNzb | null {
+    if (!/<nzb\b/i.test(xml)) return null;
+
+    const meta: Record<string, string> = {};
+    const headEnd = xml.search(/<file\b/i);
+    for (const [, rawAttrs, value] of (headEnd === -1 ? xml : xml.slice(0, headEnd)).matchAll(META_RX)) {
+        const type = readXmlAttributes(rawAttrs).type?.toLowerCase();
+        if (type) meta[type] = readText(value);
+    }
+
+    const files: NzbFile[] = [];
+    for (const [, rawAttrs, body] of xml.matchAll(FILE_RX)) {
+        files.push(parseFile(rawAttrs, body));
+    }
+    return { meta, files };
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Summary
+// ═══════════════════════════════════════════════════════════════════
+
+function describeContent(files: NzbFile[]): { content: NzbContentKind; contentLabel: string } {
+    const names = files.map((f) => f.fileName).filter((n) => !EXTRA_RX.test(n));
+    const videos = names.filter((n) => VIDEO_EXT_RX.test(n));
+    const rars = names.filter((n) => RAR_RX.test(n));
+
+    if (!names.length) return { content: "none", contentLabel: "No video" };
+    if (videos.length === 1 && !rars.length) {
+        return { content: "video", contentLabel: `Single ${videos[0].match(VIDEO_EXT_RX)![1].toUpperCase()}` };
+    }
+    if (videos.length > 1) return { content: "video", contentLabel: `${videos.length} video files` };
+    if (rars.length) return { content: "rar", contentLabel: rars.length > 1 ? `RAR set (${rars.length} parts)` : "RAR archive" };
+    if (names.some((n) => ISO_RX.test(n))) return { content: "iso", contentLabel: "ISO image" };
+    if (names.some((n) => SEVEN_ZIP_RX.test(n))) return { content: "7z", contentLabel: "7z archive" };
+    if (names.some((n) => ZIP_RX.test(n))) return { content: "zip", contentLabel: "ZIP archive" };
+    return { content: "unknown", contentLabel: "Obfuscated files" };
+}
+
+/**
+ * The video when the NZB is one plain video file (plus par2 and extras), which can be
+ * read straight from its segments. Null for archives, multi-file and obfuscated posts.
+ */
+export function findSingleVideoFile(nzb: ParsedNzb): NzbFile | null {
+    const data = nzb.files.filter((f) => !EXTRA_RX.test(f.fileName));
+    if (data.length !== 1 || !VIDEO_EXT_RX.test(data[0].fileName)) return null;
+    return data[0].segments.length ? data[0] : null;
+}
+
+export function summarizeNzb(nzb: ParsedNzb): NzbSummary {
+    let segmentCount = 0;
+    let missingSegments = 0;
+    let totalBytes = 0;
+    let dataBytes = 0;
+    let par2Bytes = 0;
+    const posters = new Set<string>();
+    const groups = new Set<string>();
+
+    for (const file of nzb.files) {
+        segmentCount += file.segments.length;
+        if (file.expectedSegments) missingSegments += Math.max(0, file.expectedSegments - file.segments.length);
+        totalBytes += file.bytes;
+
+        if (PAR2_VOLUME_RX.test(file.fileName)) par2Bytes += file.bytes;
+        else if (!PAR2_RX.test(file.fileName) && !EXTRA_RX.test(file.fileName)) dataBytes += file.bytes;
+
+        if (file.poster) posters.add(file.poster);
+        for (const group of file.groups) groups.add(group);
+    }
+
+    const { content, contentLabel } = describeContent(nzb.files);
+    return {
+        fileCount: nzb.files.length,
+        segmentCount,
+        missingSegments,
+        totalBytes,
+        dataBytes,
+        par2Percent: dataBytes ? Math.round((par2Bytes / dataBytes) * 1000) / 10 : 0,
+        posters: [...posters],
+        groups: [...groups],
+        content,
+        contentLabel,
+        hasVideoLike: content !== "none",
+        hasMetaPassword: !!nzb.meta.password,
+    };
+}
@@ -0,0 +1,137 @@
+import { assert, assertEquals } from "@std/assert";
+import { findSingleVideoFile, parseNzb, readSubjectFileName, summarizeNzb } from "./nzbParser.ts";
+
+// --- Fixtures ---
+
+interface FixtureFile {
+    subject: string;
+    segments: [number, number][]; // [number, bytes]
+    groups?: string[];
+}
+
+const POSTER = "Poster &lt;poster@example.com&gt;";
+
+function nzbXml(files: FixtureFile[], head = ""): string {
+    const body = files.map((f, i) => `
+    <file poster="${POSTER}" date="1700000000" subject="${f.subject}">
+        <groups>${(f.groups ?? ["alt.binaries.test"]).map((g) => `<group>${g}</group>`).join("")}</groups>
+        <segments>
+            ${f.segments.map(([n, bytes]) => `<segment bytes="${bytes}" number="${n}">f${i}s${n}@news</segment>`).join("\n            ")}
+        </segments>
+    </file>`).join("");
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE nzb PUBLIC "-//newzBin//DTD NZB 1.1//EN" "http://www.newzbin.com/DTD/nzb/nzb-1.1.dtd">
+<nzb xmlns="http://www.newzbin.com/DTD/2003/nzb">
+    <head>${head}</head>${body}
+</nzb>`;
+}
+
+const MOVIE_NZB = nzbXml([
+    {
+        subject: "Movie.2024 [1/4] - &quot;Movie.2024.1080p.mkv&quot; yEnc (1/3)",
+        segments: [[2, 700], [1, 700]],
+        groups: ["<![CDATA[alt.binaries.movies]]>", "alt.binaries.hdtv"],
+    },
+    { subject: "Movie.2024 [2/4] - &quot;Movie.2024.1080p.par2&quot; yEnc (1/1)", segments: [[1, 100]] },
+    { subject: "Movie.2024 [3/4] - &quot;Movie.2024.1080p.vol00+01.par2&quot; yEnc (1/2)", segments: [[1, 70], [2, 70]] },
+    { subject: "Movie.2024 [4/4] - &quot;Movie.2024.1080p.nfo&quot; yEnc (1/1)", segments: [[1, 50]] },
+], `
+        <meta type="title">Movie &amp; Sons (2024)</meta>
+        <meta type="Password"><![CDATA[s3cr&t]]></meta>`);
+
+// --- Parsing ---
+
+Deno.test("parseNzb decodes entities and CDATA in meta, attributes and groups", () => {
+    const nzb = parseNzb(MOVIE_NZB)!;
+    assertEquals(nzb.meta, { title: "Movie & Sons (2024)", password: "s3cr&t" });
+
+    const [video] = nzb.files;
+    assertEquals(video.fileName, "Movie.2024.1080p.mkv");
+    assertEquals(video.poster, "Poster <poster@example.com>");
+    assertEquals(video.date, 1700000000);
+    assertEquals(video.groups, ["alt.binaries.movies", "alt.binaries.hdtv"]);
+});
+
+Deno.test("parseNzb orders segments and reads the part counter", () => {
+    const [video, par2] = parseNzb(MOVIE_NZB)!.files;
+    assertEquals(video.segments, [
+        { number: 1, bytes: 700, messageId: "f0s1@news" },
+        { number: 2, bytes: 700, messageId: "f0s2@news" },
+    ]);
+    assertEquals(video.expectedSegments, 3);
+    assertEquals(video.bytes, 1400);
+    assertEquals(par2.expectedSegments, 1);
+});
+
+Deno.test("parseNzb rejects documents that are not NZBs", () => {
+    assertEquals(parseNzb("<rss><channel></channel></rss>"), null);
+    assertEquals(parseNzb(""), null);
+});
+
+Deno.test("readSubjectFileName falls back from quotes to a bare name to the subject", () => {
+    assertEquals(readSubjectFileName(`[01/10] - "Show.S01E01.mkv" yEnc (1/50)`), "Show.S01E01.mkv");
+    assertEquals(readSubjectFileName("Show.S01E01.part01.rar yEnc (1/50)"), "Show.S01E01.part01.rar");
+    assertEquals(readSubjectFileName(" no file name here "), "no file name here");
+});
+
+// --- Summary ---
+
+Deno.test("summarizeNzb counts missing segments and splits par2 from data bytes", () => {
+    const summary = summarizeNzb(parseNzb(MOVIE_NZB)!);
+    assertEquals(summary, {
+        fileCount: 4,
+        segmentCount: 6,
+        missingSegments: 1,
+        totalBytes: 1690,
+        dataBytes: 1400,
+        par2Percent: 10,
+        posters: ["Poster <poster@example.com>"],
+        groups: ["alt.binaries.movies", "alt.binaries.hdtv", "alt.binaries.test"],
+        content: "video",
+        contentLabel: "Single MKV",
+        hasVideoLike: true,
+        hasMetaPassword: true,
+    });
+});
+
+Deno.test("summarizeNzb labels RAR sets and obfuscated posts", () => {
+    const rar = summarizeNzb(parseNzb(nzbXml([
+        { subject: "Show.S01E01.part01.rar yEnc (1/2)", segments: [[1, 500], [2, 500]] },
+        { subject: "Show.S01E01.part02.rar yEnc (1/2)", segments: [[1, 500], [2, 500]] },
+        { subject: "Show.S01E01.part03.rar yEnc (1/1)", segments: [[1, 200]] },
+    ]))!);
+    assertEquals([rar.content, rar.contentLabel, rar.hasMetaPassword], ["rar", "RAR set (3 parts)", false]);
+
+    const hidden = summarizeNzb(parseNzb(nzbXml([
+        { subject: "[1/2] - &quot;a3f9c2e1b4d5a6f7e8c9b0a1d2e3f4a5&quot; yEnc (1/2)", segments: [[1, 900], [2, 900]] },
+        { subject: "[2/2] - &quot;a3f9c2e1b4d5a6f7e8c9b0a1d2e3f4a5.par2&quot; yEnc (1/1)", segments: [[1, 40]] },
+    ]))!);
+    assertEquals([hidden.content, hidden.contentLabel, hidden.hasVideoLike], ["unknown", "Obfuscated files", true]);
+    assertEquals(hidden.dataBytes, 1800);
+
+    const empty = summarizeNzb(parseNzb(nzbXml([{ subject: "&quot;info.nfo&quot; yEnc (1/1)", segments: [[1, 10]] }]))!);
+    assertEquals([empty.content, empty.hasVideoLike], ["none", false]);
+});
+
+// --- Direct streaming ---
+
+Deno.test("findSingleVideoFile only picks a lone plain video", () => {
+    const nzb = parseNzb(MOVIE_NZB)!;
+    assertEquals(findSingleVideoFile(nzb)?.fileName, "Movie.2024.1080p.mkv");
+
+    const twoVideos = parseNzb(nzbXml([
+        { subject: "&quot;Show.S01E01.mkv&quot; yEnc (1/1)", segments: [[1, 10]] },
+        { subject: "&quot;Show.S01E02.mkv&quot; yEnc (1/1)", segments: [[1, 10]] },
+    ]))!;
+    assertEquals(findSingleVideoFile(twoVideos), null);
+
+    const obfuscated = parseNzb(nzbXml([
+        { subject: "&quot;a3f9c2e1b4d5a6f7e8c9b0a1d2e3f4a5&quot; yEnc (1/1)", segments: [[1, 10]] },
+    ]))!;
+    assertEquals(findSingleVideoFile(obfuscated), null);
+
+    const noSegments = parseNzb(nzbXml([{ subject: "&quot;Movie.mkv&quot; yEnc (1/1)", segments: [] }]))!;
+    assert(noSegments.files.length === 1);
+    assertEquals(findSingleVideoFile(noSegments), null);
+});
@@ -1,6 +1,9 @@
+import { isAnimeId, resolveAnimeEpisode } from "./animeMapping.ts";
+
 export interface EpisodeInfo {
     season?: number | undefined;
     episode?: number | undefined;
+    absoluteEpisode?: number; // anime numbering across seasons, e.g. "One Piece - 1043"
     imdbid: string;
 }
 
@@ -14,6 +17,11 @@ export function parseRequestedEpisode(
     id: string | null | undefined,
 ): EpisodeInfo | undefined {
 
+    // 1. Anime ids (kitsu:/mal:) resolve through the local mapping table
+    if (typeof id === "string" && isAnimeId(id)) {
+        return resolveAnimeEpisode(type, id);
+    }
+
     // 2. Check ID String (e.g., used in routing: series:S01:E01)
     if (type === "series" && typeof id === "string" && id.includes(":")) {
         const parts = id.split(":");
@@ -31,6 +39,17 @@ export function parseRequestedEpisode(
     return undefined;
 }
 
+/**
+ * Redis key of the cached search results for a request. Absolute numbering widens the search,
+ * so anime requests get their own entry, and so does a search limited to an indexer subset.
+ */
+export function getSearchCacheKey(info: Partial<EpisodeInfo>, indexers?: string[]): string {
+    const subset = indexers?.length ? `:ix:${[...new Set(indexers.map((i) => i.toLowerCase()))].sort().join(",")}` : "";
+    if (!info.season || !info.episode) return `search:${info.imdbid}${subset}`;
+    const absolute = info.absoluteEpisode ? `:a${info.absoluteEpisode}` : "";
+    return `search:${info.imdbid}:${info.season}:${info.episode}${absolute}${subset}`;
+}
+
 const extractInt = (value: string | null | undefined): number | null => {
     if (value === undefined || value === null) return null;
     const strValue = String(value);
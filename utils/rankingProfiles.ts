@@ -0,0 +1,241 @@
+import type { ParsedFilename } from "@ctrl/video-filename-parser";
+import { Config } from "../env.ts";
+import { getSetting, getSettingsByPrefix } from "./sqlite.ts";
+import { getResolutionRank } from "./streamHelpers.ts";
+import type { UserConfig } from "./userConfig.ts";
+
+// ═══════════════════════════════════════════════════════════════════
+// Types
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * Relative importance of each ranking signal.
+ * Every signal is normalized to 0..1 before weighting, so weights are comparable.
+ * Negative weights penalize a signal (e.g. hdr: -5 for SDR-only screens).
+ */
+export interface RankingWeights {
+    resolution: number;
+    codec: number;
+    hdr: number;
+    audio: number;
+    group: number;
+    sizeBand: number;
+    age: number;
+    grabs: number;
+}
+
+export interface RankingProfile {
+    name: string;
+    weights: RankingWeights;
+    preferredCodecs: string[];   // e.g. ["x265", "h265"] - earlier entries score higher
+    preferredAudio: string[];    // e.g. ["Dolby TrueHD", "DTS-HD"]
+    preferredGroups: string[];   // release groups, case-insensitive
+    sizeBandGb: { min: number; max: number } | null;
+    maxPerResolution: number;
+}
+
+export interface RankableResult {
+    resolution: string;
+    parsedInfo: ParsedFilename;
+    size: number;
+    age?: number;
+    grabs?: number;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Constants
+// ═══════════════════════════════════════════════════════════════════
+
+export const RANKING_PROFILE_PREFIX = "RANKING_PROFILE_";
+
+const GIGABYTE = 1024 * 1024 * 1024;
+const MAX_RESOLUTION_RANK = 4;
+const AGE_HALF_LIFE_DAYS = 30;
+const GRABS_LOG_CEILING = 3; // 1000 grabs == full score
+
+/**
+ * The built-in profile reproduces the legacy ordering:
+ * resolution first, then the age/size tie-break applied in rankResults.
+ */
+export const DEFAULT_RANKING_PROFILE: RankingProfile = {
+    name: "default",
+    weights: {
+        resolution: 1,
+        codec: 0,
+        hdr: 0,
+        audio: 0,
+        group: 0,
+        sizeBand: 0,
+        age: 0,
+        grabs: 0,
+    },
+    preferredCodecs: [],
+    preferredAudio: [],
+    preferredGroups: [],
+    sizeBandGb: null,
+    maxPerResolution: 5,
+};
+
+// ═══════════════════════════════════════════════════════════════════
+// Profile Storage (sqlite settings table)
+// ═══════════════════════════════════════════════════════════════════
+
+export function profileSettingKey(name: string): string {
+    return `${RANKING_PROFILE_PREFIX}${name.trim().toUpperCase()}`;
+}
+
+/**
+ * Merges a stored (possibly partial) profile over the defaults so
+ * older rows keep working when new weights are introduced.
+ */
+function normalizeProfile(name: string, raw: Record<string, unknown>): RankingProfile {
+    const base = DEFAULT_RANKING_PROFILE;
+    const weights = { ...base.weights };
+
+    const rawWeights = raw.weights && typeof raw.weights === "object" ? raw.weights as Record<string, unknown> : {};
+    for (const k in weights) {
+        const v = Number(rawWeights[k]);
+        if (Number.isFinite(v)) weights[k as keyof RankingWeights] = v;
+    }
+
+    const band = raw.sizeBandGb && typeof raw.sizeBandGb === "object" ? raw.sizeBandGb as Record<string, unknown> : null;
+    const bandMin = typeof band?.min === "number" ? band.min : NaN;
+    const bandMax = typeof band?.max === "number" ? band.max : NaN;
+    const maxPer = Number(raw.maxPerResolution);
+
+    return {
+        name: name.toLowerCase(),
+        weights,
+        preferredCodecs: Array.isArray(raw.preferredCodecs) ? raw.preferredCodecs.map(String) : base.preferredCodecs,
+        preferredAudio: Array.isArray(raw.preferredAudio) ? raw.preferredAudio.map(String) : base.preferredAudio,
+        preferredGroups: Array.isArray(raw.preferredGroups) ? raw.preferredGroups.map(String) : base.preferredGroups,
+        sizeBandGb: Number.isFinite(bandMin) && Number.isFinite(bandMax) ? { min: bandMin, max: bandMax } : null,
+        maxPerResolution: Number.isFinite(maxPer) && maxPer > 0 ? Math.floor(maxPer) : base.maxPerResolution,
+    };
+}
+
+export function parseRankingProfile(name: string, json: string): RankingProfile {
+    const raw = JSON.parse(json) as Record<string, unknown> | null;
+    if (!raw || typeof raw !== "object") throw new Error(`Ranking profile "${name}" is not a JSON object`);
+    return normalizeProfile(name, raw);
+}
+
+/**
+ * Resolves a profile by name. Unknown or malformed profiles fall back
+ * to the built-in default so a typo in an install URL never breaks streams.
+ */
+export function getRankingProfile(name?: string | null): RankingProfile {
+    if (!name || name.toLowerCase() === DEFAULT_RANKING_PROFILE.name) return DEFAULT_RANKING_PROFILE;
+
+    const raw = getSetting(profileSettingKey(name));
+    if (!raw) {
+        console.warn(`[Ranking] Unknown profile "${name}", using default`);
+        return DEFAULT_RANKING_PROFILE;
+    }
+
+    try {
+        return parseRankingProfile(name, raw);
+    } catch (err) {
+        console.error(`[Ranking] Invalid profile "${name}":`, err instanceof Error ? err.message : err);
+        return DEFAULT_RANKING_PROFILE;
+    }
+}
+
+/**
+ * The profile an install ranks with: its `/profile/:profile` or the configured default,
+ * with the install config's `maxPerResolution` on top.
+ */
+export function getInstallRankingProfile(name: string | undefined, config: UserConfig): RankingProfile {
+    const profile = getRankingProfile(name || Config.RANKING_PROFILE);
+    return config.maxPerResolution ? { ...profile, maxPerResolution: config.maxPerResolution } : profile;
+}
+
+export function listRankingProfiles(): RankingProfile[] {
+    const profiles: RankingProfile[] = [DEFAULT_RANKING_PROFILE];
+
+    for (const row of getSettingsByPrefix(RANKING_PROFILE_PREFIX)) {
+        const name = row.key.slice(RANKING_PROFILE_PREFIX.length);
+        if (!name || name.toLowerCase() === DEFAULT_RANKING_PROFILE.name) continue;
+        try {
+            profiles.push(parseRankingProfile(name, row.value));
+        } catch {
+            // Skip malformed rows, getRankingProfile logs them on use
+        }
+    }
+
+    return profiles;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Scoring
+// ═══════════════════════════════════════════════════════════════════
+
+// Earlier entries in the preference list score higher, unlisted values score 0
+function preferenceScore(value: string | null | undefined, preferred: string[]): number {
+    if (!value || preferred.length === 0) return 0;
+    const v = value.toLowerCase();
+    for (let i = 0; i < preferred.length; i++) {
+        if (preferred[i].toLowerCase() === v) return (preferred.length - i) / preferred.length;
+    }
+    return 0;
+}
+
+function sizeBandScore(sizeBytes: number, band: RankingProfile["sizeBandGb"]): number {
+    if (!band || !sizeBytes) return 0;
+    const gb = sizeBytes / GIGABYTE;
+    if (gb >= band.min && gb <= band.max) return 1;
+
+    // Linear falloff outside the band, reaching 0 one band-width away
+    const width = Math.max(band.max - band.min, 1);
+    const distance = gb < band.min ? band.min - gb : gb - band.max;
+    return Math.max(0, 1 - distance / width);
+}
+
+export function scoreResult(r: RankableResult, profile: RankingProfile): number {
+    const w = profile.weights;
+    const parsed = r.parsedInfo;
+    let score = 0;
+
+    if (w.resolution) score += w.resolution * (getResolutionRank(r.resolution) / MAX_RESOLUTION_RANK);
+    if (w.codec) score += w.codec * preferenceScore(parsed.videoCodec, profile.preferredCodecs);
+    if (w.hdr) score += w.hdr * (parsed.edition?.dolbyVision ? 1 : parsed.edition?.hdr ? 0.8 : 0);
+    if (w.audio) score += w.audio * preferenceScore(parsed.audioCodec, profile.preferredAudio);
+    if (w.group) score += w.group * preferenceScore(parsed.group, profile.preferredGroups);
+    if (w.sizeBand) score += w.sizeBand * sizeBandScore(r.size, profile.sizeBandGb);
+    if (w.age && r.age != null) score += w.age * (1 / (1 + r.age / AGE_HALF_LIFE_DAYS));
+    if (w.grabs && r.grabs) score += w.grabs * Math.min(1, Math.log10(1 + r.grabs) / GRABS_LOG_CEILING);
+
+    return score;
+}
+
+/**
+ * Orders results by profile score and keeps at most `maxPerResolution`
+ * per resolution. Ties fall back to resolution, then newest, then largest.
+ */
+export function rankResults<T extends RankableResult>(results: T[], profile: RankingProfile): T[] {
+    const scored = new Array<{ r: T; score: number; resRank: number }>(results.length);
+    for (let i = 0; i < results.length; i++) {
+        const r = results[i];
+        scored[i] = { r, score: scoreResult(r, profile), resRank: getResolutionRank(r.resolution) };
+    }
+
+    scored.sort((a, b) =>
+        (b.score - a.score) ||
+        (b.resRank - a.resRank) ||
+        ((a.r.age ?? 0) - (b.r.age ?? 0)) ||
+        (b.r.size - a.r.size)
+    );
+
+    const perResolution = new Map<string, number>();
+    const out: T[] = [];
+
+    for (let i = 0; i < scored.length; i++) {
+        const r = scored[i].r;
+        const count = perResolution.get(r.resolution) ?? 0;
+        if (count >= profile.maxPerResolution) continue;
+        perResolution.set(r.resolution, count + 1);
+        out.push(r);
+    }
+
+    return out;
+}
@@ -0,0 +1,111 @@
+import { redis } from "./redis.ts";
+import { md5 } from "./md5Encoder.ts";
+
+// ═══════════════════════════════════════════════════════════════════
+// Types & Constants
+// ═══════════════════════════════════════════════════════════════════
+
+export interface ReleaseVerdict {
+    passworded: boolean;
+    obfuscated: boolean;
+    maybePassworded?: boolean; // worth a 🔒 on the card, not enough to drop it
+    reason?: string;
+}
+
+const PASSWORD_TITLE_RX =
+    /(?:^|[\s._\-[(])(?:passworded|password[\s._-]?protected|pw[\s._-]?protected|pwd)(?=$|[\s._\-\])])/i;
+const PASSWORD_FAILURE_RX = /password|encrypt/i;
+const PASSWORD_FILE_RX = /(?:^|[\s._-])(?:password|passwort|pw|pass)\.(?:txt|nfo|url|html?)$/i;
+const EXECUTABLE_RX = /\.(?:exe|scr|bat|cmd|lnk|msi)$/i;
+const ARCHIVE_RX = /\.(?:rar|r\d{2}|\d{3}|7z|zip)$/i;
+const MEDIA_EXTENSION_RX = /\.(?:mkv|mp4|avi|m4v|ts|m2ts|rar|r\d{2}|\d{3}|7z|zip|par2|nzb|nfo|sfv)$/i;
+
+// Passworded verdicts stay valid as long as the NZB exists, unlike transient job failures
+export const PASSWORDED_FAILURE_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+// ═══════════════════════════════════════════════════════════════════
+// Heuristics
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * Names that carry no release information: hex digests, or one long run of mixed
+ * letters and digits without the separators every scene or P2P name has.
+ */
+export function isObfuscatedName(name: string): boolean {
+    const base = name.trim().replace(MEDIA_EXTENSION_RX, "").replace(/\.(?:part|vol)\d+.*$/i, "");
+    if (/^[a-f0-9]{16,}$/i.test(base)) return true;
+    if (base.length < 16 || /[\s._-]/.test(base) || !/^[A-Za-z0-9]+$/.test(base)) return false;
+
+    const digits = base.replace(/\D/g, "").length;
+    const upper = base.replace(/[^A-Z]/g, "").length;
+    return digits >= 3 && (upper >= 3 || digits / base.length > 0.25);
+}
+
+export function isPasswordFailure(message: string | null | undefined): boolean {
+    return !!message && PASSWORD_FAILURE_RX.test(message);
+}
+
+/**
+ * What the search result itself tells: the Newznab `password` attribute, password tags
+ * in the title and obfuscated titles. These are claims, not evidence, so they are applied
+ * per search and never cached as failures.
+ */
+export function assessRelease(r: { title: string; passworded?: boolean; mayBePassworded?: boolean }): ReleaseVerdict {
+    const obfuscated = isObfuscatedName(r.title);
+    if (r.passworded) return { passworded: true, obfuscated, reason: "indexer password flag" };
+    if (PASSWORD_TITLE_RX.test(r.title)) return { passworded: true, obfuscated, reason: "password tag in title" };
+    if (r.mayBePassworded) return { passworded: false, obfuscated, maybePassworded: true, reason: "indexer may-be-passworded flag" };
+    return { passworded: false, obfuscated };
+}
+
+/**
+ * Judges an NZB by its file names. A password in the NZB's own `<meta>` block means the
+ * downloader can unpack it, so only archives without one are treated as passworded.
+ */
+export function assessNzbFiles(fileNames: string[], hasMetaPassword: boolean): ReleaseVerdict {
+    if (!hasMetaPassword) {
+        const executable = fileNames.find((f) => EXECUTABLE_RX.test(f));
+        if (executable) return { passworded: true, obfuscated: false, reason: `executable in NZB (${executable})` };
+
+        const passwordFile = fileNames.find((f) => PASSWORD_FILE_RX.test(f));
+        if (passwordFile) return { passworded: true, obfuscated: false, reason: `password file in NZB (${passwordFile})` };
+    }
+
+    const archives = fileNames.filter((f) => ARCHIVE_RX.test(f));
+    return {
+        passworded: false,
+        obfuscated: archives.length > 0 && archives.every(isObfuscatedName),
+    };
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Failure Cache
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * Known failures of each candidate's NZB, as recorded under `failed:` by NZBDav jobs
+ * or by earlier verdicts. Missing entries are null.
+ */
+export async function getKnownFailures(downloadUrls: string[]): Promise<(string | null)[]> {
+    if (!downloadUrls.length) return [];
+    return await redis.mget(downloadUrls.map((url) => `failed:${md5(url)}`));
+}
+
+/**
+ * Stores passworded verdicts from the NZB itself so a play that slips through fails fast
+ * instead of submitting the NZB to NZBDav and waiting for the job to break.
+ */
+export async function recordPasswordedVerdicts(verdicts: { downloadUrl: string; reason: string }[]): Promise<void> {
+    if (!verdicts.length) return;
+
+    const pipeline = redis.pipeline();
+    for (const { downloadUrl, reason } of verdicts) {
+        pipeline.setex(`failed:${md5(downloadUrl)}`, PASSWORDED_FAILURE_TTL_SECONDS, `Passworded release (${reason})`);
+    }
+
+    try {
+        await pipeline.exec();
+    } catch (err) {
+        console.error("[Release Safety] Failed to record verdicts:", err);
+    }
+}
@@ -0,0 +1,92 @@
+import { assert, assertEquals } from "@std/assert";
+import { redis } from "./redis.ts";
+import { assessNzbFiles, assessRelease, isObfuscatedName, isPasswordFailure } from "./releaseSafety.ts";
+
+// Only the pure heuristics are tested here, the failure cache needs a live redis
+redis.disconnect();
+
+// --- Names ---
+
+Deno.test("isObfuscatedName flags digests and separator-free random runs", () => {
+    for (const name of [
+        "a3f9c2e1b4d5a6f7e8c9b0a1d2e3f4a5",
+        "a3f9c2e1b4d5a6f7e8c9b0a1d2e3f4a5.mkv",
+        "a3f9c2e1b4d5a6f7e8c9b0a1d2e3f4a5.part01.rar",
+        "Xk7Qp2Lm9Rz4Tw8Bn",
+        "kq7p2lm9rz4tw8bnvx3",
+    ]) {
+        assert(isObfuscatedName(name), name);
+    }
+});
+
+Deno.test("isObfuscatedName keeps scene names and short or plain words", () => {
+    for (const name of [
+        "Show.Name.S01E02.1080p.WEB-DL.x264-GRP",
+        "Movie Title 2024 2160p",
+        "Movie_Title_2024.mkv",
+        "abc123",
+        "TheLongestTitleWithoutSpaces",
+        "TheMovie2024",
+    ]) {
+        assert(!isObfuscatedName(name), name);
+    }
+});
+
+Deno.test("isPasswordFailure matches NZBDav password and encryption errors", () => {
+    assert(isPasswordFailure("Archive is password protected"));
+    assert(isPasswordFailure("RAR is Encrypted"));
+    assert(!isPasswordFailure("Article not found"));
+    assert(!isPasswordFailure(null));
+    assert(!isPasswordFailure(""));
+});
+
+// --- Search results ---
+
+Deno.test("assessRelease prefers the indexer flag, then a title tag", () => {
+    assertEquals(assessRelease({ title: "Movie.2024.1080p-GRP", passworded: true }), {
+        passworded: true,
+        obfuscated: false,
+        reason: "indexer password flag",
+    });
+    assertEquals(assessRelease({ title: "Movie.2024.1080p.PASSWORDED-GRP" }).reason, "password tag in title");
+    assertEquals(assessRelease({ title: "Movie 2024 [pw-protected]" }).passworded, true);
+
+    // Words that merely contain the tag are not passwords
+    assertEquals(assessRelease({ title: "Passwordless.2024.1080p-GRP" }).passworded, false);
+    assertEquals(assessRelease({ title: "The.Pwdx.Files.S01E01-GRP" }).passworded, false);
+});
+
+Deno.test("assessRelease only flags may-be-passworded releases", () => {
+    assertEquals(assessRelease({ title: "Movie.2024.1080p-GRP", mayBePassworded: true }), {
+        passworded: false,
+        obfuscated: false,
+        maybePassworded: true,
+        reason: "indexer may-be-passworded flag",
+    });
+    assertEquals(assessRelease({ title: "a3f9c2e1b4d5a6f7e8c9b0a1d2e3f4a5" }), { passworded: false, obfuscated: true });
+});
+
+// --- NZB contents ---
+
+Deno.test("assessNzbFiles treats executables and password files as passworded", () => {
+    const exe = assessNzbFiles(["Movie.2024.part01.rar", "Movie.2024.exe"], false);
+    assertEquals(exe.passworded, true);
+    assertEquals(exe.reason, "executable in NZB (Movie.2024.exe)");
+
+    const note = assessNzbFiles(["Movie.2024.part01.rar", "Password.txt"], false);
+    assertEquals(note.reason, "password file in NZB (Password.txt)");
+
+    // A password in the NZB meta block lets the downloader unpack it
+    assertEquals(assessNzbFiles(["Movie.2024.part01.rar", "Password.txt"], true).passworded, false);
+});
+
+Deno.test("assessNzbFiles calls a release obfuscated only when every archive is", () => {
+    const hashed = ["a3f9c2e1b4d5a6f7e8c9b0a1d2e3f4a5.part01.rar", "a3f9c2e1b4d5a6f7e8c9b0a1d2e3f4a5.part02.rar", "Movie.2024.nfo"];
+    assertEquals(assessNzbFiles(hashed, false), { passworded: false, obfuscated: true });
+
+    const mixed = [...hashed, "Movie.2024.1080p-GRP.part03.rar"];
+    assertEquals(assessNzbFiles(mixed, false).obfuscated, false);
+
+    // No archives at all: a plain mkv post is judged by its title instead
+    assertEquals(assessNzbFiles(["a3f9c2e1b4d5a6f7e8c9b0a1d2e3f4a5.mkv"], false).obfuscated, false);
+});
@@ -0,0 +1,161 @@
+import { Config } from "../env.ts";
+import { searchHydra } from "../lib/nzbhydra.ts";
+import { searchProwlarr } from "../lib/prowlarr.ts";
+import { normalizeTitle, searchDirect, type SearchOptions } from "../lib/nzbnab.ts";
+import { getEnabledIndexers } from "./sqlite.ts";
+import { normalizeImdbId, type NewznabAttributes } from "./newznabAttributes.ts";
+import type { SearchResult } from "./getMediaAndSearchResults.ts";
+
+// ═══════════════════════════════════════════════════════════════════
+// Types & Constants
+// ═══════════════════════════════════════════════════════════════════
+
+export type SearchProvider = "hydra" | "prowlarr" | "direct";
+
+export const SEARCH_PROVIDERS: readonly SearchProvider[] = ["hydra", "prowlarr", "direct"];
+
+export interface ProviderSearchOptions extends SearchOptions {
+    tmdbId?: string;
+}
+
+// Prowlarr reports the ids as numbers, the Newznab feeds as strings
+interface RawProviderResult extends Omit<NewznabAttributes, "imdbId" | "tvdbId"> {
+    imdbId?: string | number;
+    tvdbId?: string | number;
+    guid: string | null;
+    title: string;
+    downloadUrl: string;
+    size: number;
+    indexer?: string;
+    age?: number;
+    fileName?: string;
+    seasonPack?: boolean;
+}
+
+// A slow provider is dropped rather than holding up the others (search lock is 25s)
+const PROVIDER_TIMEOUT_MS = 20_000;
+const PROTOCOL_USENET = "usenet";
+
+// ═══════════════════════════════════════════════════════════════════
+// Provider Selection
+// ═══════════════════════════════════════════════════════════════════
+
+function isConfigured(provider: SearchProvider): boolean {
+    switch (provider) {
+        case "hydra":
+            return !!(Config.NZBHYDRA_URL && Config.NZBHYDRA_API_KEY);
+        case "prowlarr":
+            return !!(Config.PROWLARR_URL && Config.PROWLARR_API_KEY);
+        case "direct":
+            return getEnabledIndexers().length > 0;
+    }
+}
+
+/**
+ * Providers to fan out to. `auto` uses every configured one. An explicit list
+ * still skips providers that are missing their URL/key or indexers.
+ */
+export function getActiveProviders(): SearchProvider[] {
+    const setting = Config.SEARCH_PROVIDERS.trim().toLowerCase();
+
+    const wanted = !setting || setting === "auto"
+        ? SEARCH_PROVIDERS
+        : setting.split(",").map((p) => p.trim()).filter((p): p is SearchProvider =>
+            (SEARCH_PROVIDERS as readonly string[]).includes(p)
+        );
+
+    const active = wanted.filter(isConfigured);
+
+    // Nothing configured: keep the old behaviour and let direct search log its warning
+    return active.length ? active : ["direct"];
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Aggregation
+// ═══════════════════════════════════════════════════════════════════
+
+function runProvider(provider: SearchProvider, opts: ProviderSearchOptions): Promise<RawProviderResult[]> {
+    switch (provider) {
+        case "hydra":
+            return searchHydra(opts);
+        case "prowlarr":
+            return searchProwlarr(opts);
+        case "direct":
+            return searchDirect(opts);
+    }
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number, label: string): Promise<T> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`${label} timed out after ${ms}ms`)), ms);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Queries every active provider in parallel and merges the results. A failing or slow
+ * provider only loses its own results. Duplicates across providers collapse by normalized
+ * title, keeping the largest, same as each provider does internally.
+ */
+export async function searchAllProviders(opts: ProviderSearchOptions): Promise<SearchResult[]> {
+    const providers = getActiveProviders();
+
+    const settled = await Promise.allSettled(
+        providers.map((provider) => withTimeout(runProvider(provider, opts), PROVIDER_TIMEOUT_MS, provider)),
+    );
+
+    const best = new Map<string, SearchResult>();
+    const counts: string[] = [];
+
+    for (let i = 0; i < providers.length; i++) {
+        const provider = providers[i];
+        const outcome = settled[i];
+
+        if (outcome.status === "rejected") {
+            const reason = outcome.reason instanceof Error ? outcome.reason.message : outcome.reason;
+            console.error(`[Search] ${provider} failed: ${reason}`);
+            counts.push(`${provider}=failed`);
+            continue;
+        }
+
+        counts.push(`${provider}=${outcome.value.length}`);
+
+        for (const r of outcome.value) {
+            if (!r?.downloadUrl || !r.title) continue;
+
+            const key = normalizeTitle(r.title);
+            const existing = best.get(key);
+            if (existing && existing.size >= r.size) continue;
+
+            best.set(key, {
+                guid: r.guid,
+                title: r.title,
+                downloadUrl: r.downloadUrl,
+                size: r.size,
+                indexer: r.indexer,
+                age: r.age,
+                protocol: PROTOCOL_USENET,
+                fileName: r.fileName || r.title,
+                seasonPack: r.seasonPack,
+                provider,
+                grabs: r.grabs,
+                comments: r.comments,
+                files: r.files,
+                passworded: r.passworded,
+                mayBePassworded: r.mayBePassworded,
+                usenetDate: r.usenetDate,
+                poster: r.poster,
+                group: r.group,
+                imdbId: normalizeImdbId(r.imdbId),
+                tvdbId: r.tvdbId ? String(r.tvdbId) : undefined,
+            });
+        }
+    }
+
+    const results = [...best.values()].sort((a, b) => b.size - a.size);
+    if (providers.length > 1) {
+        console.log(`[Search] ${results.length} merged results (${counts.join(", ")})`);
+    }
+    return results;
+}
@@ -0,0 +1,225 @@
+import { LRUCache } from "lru-cache";
+import { contentType } from "@std/media-types";
+import { extname } from "@std/path";
+import { getJsonValue } from "./redis.ts";
+import { getUsableNntpServers } from "./sqlite.ts";
+import { loadNzb } from "./nzbFetch.ts";
+import { findSingleVideoFile, type NzbSegment } from "./nzbParser.ts";
+import { getNntpPool, NntpError } from "../lib/nntp.ts";
+import { decodeYenc, YencError, type YencPart } from "../lib/yenc.ts";
+import type { StreamCache } from "../lib/nzbDav/types.ts";
+
+// ═══════════════════════════════════════════════════════════════════
+// Types & Constants
+// ═══════════════════════════════════════════════════════════════════
+
+export interface SegmentSession {
+    fileName: string;
+    size: number;
+    partSize: number; // decoded bytes per segment, the last one may be shorter
+    segments: NzbSegment[];
+}
+
+const DEFAULT_MIME = "video/mp4";
+const READ_AHEAD_SEGMENTS = 4;
+const SEGMENT_CACHE_BYTES = 64 * 1024 * 1024; // ~64 typical 750KB parts, shared by all streams
+const SESSION_TTL_MS = 60 * 60_000;
+const NZB_TIMEOUT_MS = 15_000;
+
+const sessions = new LRUCache<string, Promise<SegmentSession | null>>({ max: 100, ttl: SESSION_TTL_MS });
+const segmentCache = new LRUCache<string, YencPart>({
+    maxSize: SEGMENT_CACHE_BYTES,
+    sizeCalculation: (part) => Math.max(1, part.data.length),
+});
+const inflight = new Map<string, Promise<YencPart>>();
+
+type SegmentLoader = (segment: NzbSegment) => Promise<YencPart>;
+
+// ═══════════════════════════════════════════════════════════════════
+// Segments
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * Downloads and decodes one article, trying servers in priority order. Missing articles
+ * and server errors move on to the next server.
+ */
+async function downloadSegment(messageId: string): Promise<YencPart> {
+    let lastError: unknown = new NntpError("No usable NNTP servers");
+
+    for (const server of getUsableNntpServers()) {
+        try {
+            const body = await getNntpPool(server).use((conn) => conn.body(messageId));
+            if (body) return decodeYenc(body);
+            lastError = new NntpError(`Article missing: ${messageId}`, 430);
+        } catch (err) {
+            lastError = err;
+            console.warn(`[Segment Stream] ${server.host}:`, err instanceof Error ? err.message : err);
+        }
+    }
+    throw lastError;
+}
+
+function getSegment(segment: NzbSegment): Promise<YencPart> {
+    const cached = segmentCache.get(segment.messageId);
+    if (cached) return Promise.resolve(cached);
+
+    let pending = inflight.get(segment.messageId);
+    if (!pending) {
+        pending = downloadSegment(segment.messageId)
+            .then((part) => {
+                segmentCache.set(segment.messageId, part);
+                return part;
+            })
+            .finally(() => inflight.delete(segment.messageId));
+        inflight.set(segment.messageId, pending);
+    }
+    return pending;
+}
+
+function readAhead(session: SegmentSession, index: number, load: SegmentLoader): void {
+    const last = Math.min(session.segments.length - 1, index + READ_AHEAD_SEGMENTS);
+    for (let i = index + 1; i <= last; i++) {
+        load(session.segments[i]).catch(() => { }); // surfaces when the reader gets there
+    }
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Sessions
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * Bytes per part of a file posted in equal parts, judged from its first part. Null when
+ * offsets cannot be mapped to segments: the part is not the start of the file, or the
+ * segment count does not add up to the file size.
+ */
+export function getPartSize(first: YencPart, segmentCount: number): number | null {
+    const partSize = first.end - first.begin;
+    if (first.begin !== 0 || partSize <= 0) return null;
+    return Math.ceil(first.fileSize / partSize) === segmentCount ? partSize : null;
+}
+
+/**
+ * Works out whether a stream can be served from its segments: one uncompressed video file
+ * posted in equal parts. The first part gives the real file size and the part size.
+ * Null means it never will be; fetch and server errors throw so they are not remembered.
+ */
+async function openSession(key: string): Promise<SegmentSession | null> {
+    const meta = await getJsonValue<StreamCache>(`streams:${key}`);
+    if (!meta?.downloadUrl) return null;
+
+    const nzb = await loadNzb(key, meta.downloadUrl, AbortSignal.timeout(NZB_TIMEOUT_MS));
+    const file = findSingleVideoFile(nzb);
+    if (!file) return null;
+
+    const first = await getSegment(file.segments[0]);
+    const partSize = getPartSize(first, file.segments.length);
+    if (!partSize) {
+        console.log(`[Segment Stream] ${file.fileName}: ${file.segments.length} segments do not split ${first.fileSize} bytes evenly, not streamable`);
+        return null;
+    }
+
+    return { fileName: first.name || file.fileName, size: first.fileSize, partSize, segments: file.segments };
+}
+
+function getSession(key: string): Promise<SegmentSession | null> {
+    const cached = sessions.get(key);
+    if (cached) return cached;
+
+    const session: Promise<SegmentSession | null> = openSession(key).catch((err) => {
+        console.warn("[Segment Stream] Cannot open:", err instanceof Error ? err.message : err);
+        // Transient, the next request tries again instead of falling back to NZBDav for an hour
+        if (sessions.get(key) === session) sessions.delete(key);
+        return null;
+    });
+    sessions.set(key, session);
+    return session;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Response
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * Streams bytes `start` to `end` (inclusive) of the file, one segment per pull.
+ */
+export function readRange(
+    session: SegmentSession,
+    start: number,
+    end: number,
+    load: SegmentLoader = getSegment,
+): ReadableStream<Uint8Array> {
+    let offset = start;
+
+    return new ReadableStream<Uint8Array>({
+        async pull(controller) {
+            if (offset > end) {
+                controller.close();
+                return;
+            }
+
+            const index = Math.floor(offset / session.partSize);
+            readAhead(session, index, load);
+
+            try {
+                const part = await load(session.segments[index]);
+                if (part.begin !== index * session.partSize) {
+                    throw new YencError(`Segment ${index + 1} starts at ${part.begin}, expected ${index * session.partSize}`);
+                }
+
+                const chunk = part.data.subarray(offset - part.begin, Math.min(part.data.length, end - part.begin + 1));
+                // A short part would otherwise be pulled again and again for the same offset
+                if (chunk.length === 0) throw new YencError(`Segment ${index + 1} is truncated at ${part.end}`);
+                offset += chunk.length;
+                controller.enqueue(chunk);
+            } catch (err) {
+                console.error(`[Segment Stream] ${session.fileName} at ${offset}:`, err instanceof Error ? err.message : err);
+                controller.error(err);
+            }
+        },
+    });
+}
+
+/**
+ * Serves a stream straight from its NNTP segments with byte-range support. Returns null when
+ * the release cannot be read this way (archives, multiple files, odd part sizes) so the caller
+ * can fall back to NZBDav.
+ */
+export async function streamFromSegments(key: string, req: Request): Promise<Response | null> {
+    const session = await getSession(key);
+    if (!session) return null;
+
+    const { size } = session;
+    const headers = new Headers({
+        "Accept-Ranges": "bytes",
+        "Content-Type": contentType(extname(session.fileName)) ?? DEFAULT_MIME,
+    });
+
+    let status = 200;
+    let start = 0;
+    let end = size - 1;
+
+    const rangeHeader = req.headers.get("Range");
+    if (rangeHeader?.startsWith("bytes=")) {
+        const [startStr, endStr] = rangeHeader.slice(6).split("-");
+        if (startStr !== "") {
+            start = parseInt(startStr, 10);
+            end = endStr ? Math.min(parseInt(endStr, 10), size - 1) : size - 1;
+        } else if (endStr) {
+            start = Math.max(0, size - parseInt(endStr, 10));
+        }
+
+        if (!Number.isFinite(start) || !Number.isFinite(end) || start >= size || start > end) {
+            headers.set("Content-Range", `bytes */${size}`);
+            return new Response(null, { status: 416, headers });
+        }
+
+        status = 206;
+        headers.set("Content-Range", `bytes ${start}-${end}/${size}`);
+    }
+
+    headers.set("Content-Length", String(end - start + 1));
+    if (req.method === "HEAD") return new Response(null, { status, headers });
+
+    if (status === 206) console.log(`[Segment Stream] ${status} ${start}-${end}/${size} -> ${session.fileName}`);
+    return new Response(readRange(session, start, end), { status, headers });
+}
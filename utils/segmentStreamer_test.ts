@@ -0,0 +1,93 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { redis } from "./redis.ts";
+import { getPartSize, readRange, type SegmentSession } from "./segmentStreamer.ts";
+import { YencError, type YencPart } from "../lib/yenc.ts";
+import type { NzbSegment } from "./nzbParser.ts";
+
+// Segments are served from memory here, nothing talks to redis or NNTP
+redis.disconnect();
+
+// --- Fixtures ---
+
+const FILE_SIZE = 2500;
+const PART_SIZE = 1000;
+const FILE = new Uint8Array(FILE_SIZE).map((_, i) => i % 251);
+
+function part(begin: number, end: number, fileSize = FILE_SIZE): YencPart {
+    return { name: "movie.mkv", fileSize, begin, end, data: FILE.slice(begin, end) };
+}
+
+function session(): SegmentSession {
+    const segments: NzbSegment[] = [0, 1, 2].map((i) => ({ number: i + 1, bytes: 0, messageId: `s${i}@test` }));
+    return { fileName: "movie.mkv", size: FILE_SIZE, partSize: PART_SIZE, segments };
+}
+
+// Serves the file in 1000 byte parts, `tamper` can swap one out
+function loader(tamper?: (index: number, p: YencPart) => YencPart) {
+    const loaded: number[] = [];
+    const load = (segment: NzbSegment) => {
+        const index = segment.number - 1;
+        loaded.push(index);
+        const p = part(index * PART_SIZE, Math.min(FILE_SIZE, (index + 1) * PART_SIZE));
+        return Promise.resolve(tamper ? tamper(index, p) : p);
+    };
+    return { load, loaded };
+}
+
+async function collect(stream: ReadableStream<Uint8Array>): Promise<Uint8Array> {
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// --- Part size ---
+
+Deno.test("getPartSize accepts equal parts that add up to the file", () => {
+    assertEquals(getPartSize(part(0, 1000), 3), 1000);
+    assertEquals(getPartSize(part(0, 1000, 3000), 3), 1000);
+    assertEquals(getPartSize(part(0, 2500), 1), 2500);
+});
+
+Deno.test("getPartSize refuses parts it cannot map offsets to", () => {
+    assertEquals(getPartSize(part(0, 1000), 2), null);
+    assertEquals(getPartSize(part(0, 1000, 3000), 4), null);
+    assertEquals(getPartSize(part(1000, 2000), 3), null);
+    assertEquals(getPartSize(part(0, 0), 3), null);
+});
+
+// --- Ranges ---
+
+Deno.test("readRange streams the whole file across segments", async () => {
+    const { load } = loader();
+    assertEquals(await collect(readRange(session(), 0, FILE_SIZE - 1, load)), FILE);
+});
+
+Deno.test("readRange serves partial ranges at segment boundaries", async () => {
+    const cases: [number, number][] = [
+        [10, 20], // inside the first segment
+        [999, 1000], // last byte of one segment, first of the next
+        [1000, 1999], // exactly one segment
+        [1500, 2499], // into the short last segment
+        [2499, 2499], // last byte
+        [0, 0], // first byte
+    ];
+
+    for (const [start, end] of cases) {
+        const { load } = loader();
+        assertEquals(await collect(readRange(session(), start, end, load)), FILE.slice(start, end + 1), `${start}-${end}`);
+    }
+});
+
+Deno.test("readRange starts at the segment holding the offset", async () => {
+    const { load, loaded } = loader();
+    await collect(readRange(session(), 2100, 2200, load));
+    assertEquals(loaded, [2]);
+});
+
+Deno.test("readRange fails on a segment from the wrong offset", async () => {
+    const { load } = loader((index, p) => index === 1 ? part(1100, 2100) : p);
+    await assertRejects(() => collect(readRange(session(), 900, 1100, load)), YencError, "Segment 2 starts at 1100, expected 1000");
+});
+
+Deno.test("readRange fails instead of looping on a truncated segment", async () => {
+    const { load } = loader((index, p) => index === 2 ? { ...p, end: 2400, data: p.data.subarray(0, 400) } : p);
+    await assertRejects(() => collect(readRange(session(), 2300, 2499, load)), YencError, "Segment 3 is truncated at 2400");
+});
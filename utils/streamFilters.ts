@@ -11,8 +11,16 @@ interface FormatVideoCardOptions {
   source?: string;            // e.g., 'Usenet', 'Torrent'
   age?: number | null;        // days
   grabs?: number | null;      // number of grabs
+  comments?: number | null;   // comments on the indexer
+  files?: number | null;      // files in the NZB
+  poster?: string;            // who posted it, e.g. 'Anonymous <anon@example.com>'
+  newsgroup?: string;         // e.g. 'alt.binaries.movies'
+  content?: string;           // NZB layout, e.g. 'Single MKV', 'RAR set (45 parts)'
+  passworded?: boolean;       // archive is passworded (indexer flag, title or NZB peek)
+  obfuscated?: boolean;       // release or file names carry no information
   message?: string;           // additional message
   isComplete?: boolean;      // is the NZB complete
+  seasonPack?: boolean;      // full season release picked for a single episode
 }
 
 export function formatVideoCard(parsed: ParsedFilename | ParsedShow, options: FormatVideoCardOptions = {}) {
@@ -23,17 +31,28 @@ export function formatVideoCard(parsed: ParsedFilename | ParsedShow, options: Fo
     source = 'Usenet',
     age = null,
     grabs = null,
+    comments = null,
+    files = null,
+    poster = '',
+    newsgroup = '',
+    content = '',
+    passworded = false,
+    obfuscated = false,
     isComplete = undefined,
+    seasonPack = false,
     message = ''
   } = options;
 
   const isTv = 'isTv' in parsed && parsed.isTv;
-  const isFullSeason = 'fullSeason' in parsed && parsed.fullSeason === true;
+  const isFullSeason = seasonPack || ('fullSeason' in parsed && parsed.fullSeason === true);
+  const season = 'seasons' in parsed ? parsed.seasons?.[0] : undefined;
 
   const episodeString =
     isTv && !isFullSeason && 'seasons' in parsed && 'episodeNumbers' in parsed
       ? ` S${parsed.seasons?.[0]?.toString().padStart(2, '0')}E${parsed.episodeNumbers?.[0]?.toString().padStart(2, '0')}`
-      : '';
+      : isFullSeason
+        ? `${season !== undefined ? ` S${season.toString().padStart(2, '0')}` : ''} 📚 Season Pack`
+        : '';
 
   // Title + Year
   const titleLine = `🎬 ${parsed.title}${parsed.year ? ` (${parsed.year})` : ''} ` + episodeString;
@@ -71,14 +90,17 @@ export function formatVideoCard(parsed: ParsedFilename | ParsedShow, options: Fo
   // Size & Group
   const sizeParts = [];
 
+  const fileCount = files ? ` (${files} files)` : '';
   if (size && totalSize) {
-    sizeParts.push(`📦 ${size} GB / ${totalSize} GB`);
+    sizeParts.push(`📦 ${size} GB / ${totalSize} GB${fileCount}`);
   } else if (size) {
-    sizeParts.push(`📦 ${size} GB`);
+    sizeParts.push(`📦 ${size} GB${fileCount}`);
   } else if (totalSize) {
-    sizeParts.push(`📦 ${totalSize} GB`);
+    sizeParts.push(`📦 ${totalSize} GB${fileCount}`);
   }
+  if (content) sizeParts.push(`🗂️ ${content}`);
   if (parsed.group) sizeParts.push(`🏷️ ${parsed.group}`);
+  if (newsgroup) sizeParts.push(`📰 ${newsgroup.replace(/^alt\.binaries\./, 'a.b.')}`);
   if (source) sizeParts.push(`🔍 ${source}`);
   // sizeParts.push(`📡 RARBG`);
 
@@ -87,6 +109,12 @@ export function formatVideoCard(parsed: ParsedFilename | ParsedShow, options: Fo
   const ageParts = [];
   if (age !== null) ageParts.push(`⏳ ${age} days old`);
   if (grabs !== null) ageParts.push(`🤲 ${grabs} grabs`);
+  if (comments) ageParts.push(`💬 ${comments}`);
+  // The name part only, posters often carry a throwaway address
+  const posterName = poster.replace(/<[^>]*>/, '').trim() || poster.split('@')[0];
+  if (posterName) ageParts.push(`👤 ${posterName}`);
+  if (passworded) ageParts.push('🔒 Passworded');
+  if (obfuscated) ageParts.push('🎭 Obfuscated');
   if (isComplete !== undefined) ageParts.push(`${isComplete === true ? '✅ Complete' : isComplete === false ? '❌ Incomplete' : ''}`);
   const ageLine = ageParts.join(' ');
 
@@ -1,4 +1,5 @@
 import { Config } from "../env.ts";
+import { md5 } from "./md5Encoder.ts";
 
 // Pre-compile Regex for performance
 export const REGEX_GUID_PARAM = /[?&]guid=([^&]+)/;
@@ -82,11 +83,21 @@ export function parseRedisJsonScalar(raw: unknown): string | null {
     }
 }
 
+/**
+ * Key of the `streams:` record for a result. Season packs get one record per episode so each
+ * episode keeps its own file path, while the NZBDav job is shared through the download URL.
+ */
+export function getStreamHash(result: { downloadUrl: string; seasonPack?: boolean }, videoId: string): string {
+    return result.seasonPack ? md5(`${result.downloadUrl}#${videoId}`) : md5(result.downloadUrl);
+}
+
 /**
  * Optimized GUID extraction using Regex instead of new URL()
+ * Hydra GUIDs are kept whole. Without a provider tag (older cached results) Hydra being configured decides.
  */
-export function extractGuidFromUrl(urlString: string): string {
-    if (Config.NZBHYDRA_URL && Config.NZBHYDRA_API_KEY) return urlString;
+export function extractGuidFromUrl(urlString: string, provider?: string): string {
+    const isHydra = provider ? provider === "hydra" : !!(Config.NZBHYDRA_URL && Config.NZBHYDRA_API_KEY);
+    if (isHydra) return urlString;
 
     const queryMatch = REGEX_GUID_PARAM.exec(urlString);
     if (queryMatch) return queryMatch[1];
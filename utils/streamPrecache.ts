@@ -0,0 +1,62 @@
+import { Config } from "../env.ts";
+import { redis } from "./redis.ts";
+import { JobBudget } from "./jobBudget.ts";
+import { prepareNzbdavStream } from "../lib/nzbDav/nzbDav.ts";
+import type { StreamCache } from "../lib/nzbDav/types.ts";
+
+// ═══════════════════════════════════════════════════════════════════
+// Types & Constants
+// ═══════════════════════════════════════════════════════════════════
+
+export interface PrecacheCandidate {
+    hash: string;
+    meta: StreamCache;
+    cached: boolean; // already has a view path (the ⚡ marker)
+    passworded: boolean; // only offered because the policy flags instead of dropping
+    isComplete: boolean | null;
+}
+
+const budget = new JobBudget(() => Config.PRECACHE_MAX_CONCURRENT);
+const queued = new Set<string>(); // stream hashes queued or building on this instance
+
+// ═══════════════════════════════════════════════════════════════════
+// Pre-cache
+// ═══════════════════════════════════════════════════════════════════
+
+async function precacheStream({ hash, meta }: PrecacheCandidate): Promise<void> {
+    if (queued.has(hash)) return;
+    queued.add(hash);
+
+    try {
+        await budget.run(() => prepareNzbdavStream(hash, meta));
+        console.log(`[Precache] Ready: ${meta.title}`);
+    } catch (err) {
+        console.warn(`[Precache] ${meta.title} failed:`, err instanceof Error ? err.message : err);
+    } finally {
+        queued.delete(hash);
+    }
+}
+
+/**
+ * Starts NZBDav jobs for the uncached releases among the top `PRECACHE_TOP` results of a
+ * stream list, so the first click plays from a warm mount. A title is pre-cached at most
+ * once per cooldown, tracked in Redis so every instance shares it.
+ */
+export async function precacheTopResults(videoId: string, ranked: PrecacheCandidate[]): Promise<void> {
+    const count = Config.PRECACHE_TOP;
+    if (!count) return;
+
+    const completeOnly = Config.PRECACHE_COMPLETE_ONLY;
+    const picks = ranked.slice(0, count).filter((c) => !c.cached && !c.passworded && (!completeOnly || c.isComplete === true));
+    if (!picks.length) return;
+
+    try {
+        const cooldown = Math.round(Config.PRECACHE_COOLDOWN_MINUTES * 60);
+        if (cooldown > 0 && await redis.set(`precache:${videoId}`, "1", "EX", cooldown, "NX") !== "OK") return;
+
+        console.log(`[Precache] ${videoId}: queuing ${picks.length} release(s)`);
+        await Promise.all(picks.map(precacheStream));
+    } catch (err) {
+        console.warn("[Precache] Failed:", err instanceof Error ? err.message : err);
+    }
+}
@@ -0,0 +1,63 @@
+import { redis } from "./redis.ts";
+import type { ApiKeyPrincipal } from "./apiKeys.ts";
+
+// ═══════════════════════════════════════════════════════════════════
+// Constants
+// ═══════════════════════════════════════════════════════════════════
+
+export type QuotaVerdict = "ok" | "concurrency" | "quota";
+// "grab" is an NZB download for an external player, only the daily grab quota applies
+export type SlotKind = "stream" | "grab";
+
+// A stream counts as active while its range requests keep arriving within this window
+const ACTIVE_WINDOW_MS = 10 * 60_000;
+const GRAB_SET_TTL_SEC = 172800;
+
+// ═══════════════════════════════════════════════════════════════════
+// Quotas
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * Admits a playback or NZB grab request for `hash`. Repeat requests for a stream that is
+ * already active or already grabbed today never count twice.
+ * Fails open when redis is unavailable so playback is never blocked by bookkeeping.
+ */
+export async function acquireStreamSlot(
+    principal: ApiKeyPrincipal,
+    hash: string,
+    kind: SlotKind = "stream",
+): Promise<QuotaVerdict> {
+    const { id, dailyGrabQuota } = principal;
+    const maxConcurrentStreams = kind === "stream" ? principal.maxConcurrentStreams : 0;
+    if (!maxConcurrentStreams && !dailyGrabQuota) return "ok";
+
+    const now = Date.now();
+    const activeKey = `quota:active:${id}`;
+    const grabsKey = `quota:grabs:${id}:${new Date(now).toISOString().slice(0, 10)}`;
+
+    try {
+        const reads = await redis.pipeline()
+            .zremrangebyscore(activeKey, "-inf", now - ACTIVE_WINDOW_MS)
+            .zscore(activeKey, hash)
+            .zcard(activeKey)
+            .sismember(grabsKey, hash)
+            .scard(grabsKey)
+            .exec();
+
+        const isActive = reads?.[1]?.[1] != null;
+        const activeCount = Number(reads?.[2]?.[1] ?? 0);
+        const isGrabbed = reads?.[3]?.[1] === 1;
+        const grabCount = Number(reads?.[4]?.[1] ?? 0);
+
+        if (maxConcurrentStreams && !isActive && activeCount >= maxConcurrentStreams) return "concurrency";
+        if (dailyGrabQuota && !isGrabbed && grabCount >= dailyGrabQuota) return "quota";
+
+        const writes = redis.pipeline();
+        if (kind === "stream") writes.zadd(activeKey, now, hash).pexpire(activeKey, ACTIVE_WINDOW_MS);
+        await writes.sadd(grabsKey, hash).expire(grabsKey, GRAB_SET_TTL_SEC).exec();
+    } catch (err) {
+        console.error(`[ApiKeys] Quota check failed for "${principal.label}":`, err instanceof Error ? err.message : err);
+    }
+
+    return "ok";
+}
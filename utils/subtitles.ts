@@ -0,0 +1,205 @@
+import { extname } from "@std/path/posix";
+import { Config } from "../env.ts";
+import { redis } from "./redis.ts";
+import { getWebdavClient, normalizeNzbdavPath } from "./webdav.ts";
+import { getEpisodeRegex } from "./findBestVideoFile.ts";
+import { getSearchCacheKey, parseRequestedEpisode, type EpisodeInfo } from "./parseRequestedEpisode.ts";
+import { getStreamHash, parseRedisJson, parseRedisJsonScalar } from "./streamHelpers.ts";
+import type { SearchResult } from "./getMediaAndSearchResults.ts";
+
+// ═══════════════════════════════════════════════════════════════════
+// Types & Constants
+// ═══════════════════════════════════════════════════════════════════
+
+export interface StremioSubtitle {
+    id: string;
+    url: string;
+    lang: string;
+}
+
+interface BundledSubtitle {
+    relPath: string; // relative to the job root
+    lang: string;
+}
+
+// Directories walked per job, release folders rarely nest subs deeper than "Subs/"
+const MAX_DIRECTORIES = 20;
+
+const ANY_EPISODE_RX = /(?:s\d{1,2}[. ]?e\d{1,3}|\d{1,2}x\d{2,3})(?![0-9])/i;
+const TOKEN_SPLIT_RX = /[.\s_\-()[\]]+/;
+const BRAZILIAN_RX = /(?:^|[.\s_\-])pt[-_]?br(?:[.\s_\-]|$)/i;
+
+// ISO 639-2/B codes, the set Stremio's subtitle picker understands
+const LANGUAGE_ALIASES: Record<string, string[]> = {
+    eng: ["en", "eng", "english"],
+    spa: ["es", "spa", "spanish", "espanol", "español", "castellano"],
+    fre: ["fr", "fre", "fra", "french", "francais", "français"],
+    ger: ["de", "ger", "deu", "german", "deutsch"],
+    ita: ["it", "ita", "italian", "italiano"],
+    por: ["pt", "por", "portuguese", "portugues"],
+    pob: ["brazilian"],
+    dut: ["nl", "dut", "nld", "dutch", "nederlands"],
+    swe: ["sv", "swe", "swedish", "svenska"],
+    nor: ["no", "nor", "nob", "norwegian", "norsk"],
+    dan: ["da", "dan", "danish", "dansk"],
+    fin: ["fi", "fin", "finnish", "suomi"],
+    pol: ["pl", "pol", "polish", "polski"],
+    rus: ["ru", "rus", "russian"],
+    ukr: ["uk", "ukr", "ukrainian"],
+    cze: ["cs", "cze", "ces", "czech"],
+    hun: ["hu", "hun", "hungarian", "magyar"],
+    rum: ["ro", "rum", "ron", "romanian"],
+    gre: ["el", "gre", "ell", "greek"],
+    tur: ["tr", "tur", "turkish"],
+    ara: ["ar", "ara", "arabic"],
+    heb: ["he", "heb", "hebrew"],
+    hin: ["hi", "hin", "hindi"],
+    jpn: ["ja", "jpn", "japanese"],
+    kor: ["ko", "kor", "korean"],
+    chi: ["zh", "chi", "zho", "chinese"],
+};
+
+const LANGUAGE_LOOKUP = new Map<string, string>();
+for (const code in LANGUAGE_ALIASES) {
+    for (const alias of LANGUAGE_ALIASES[code]) LANGUAGE_LOOKUP.set(alias, code);
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Helpers
+// ═══════════════════════════════════════════════════════════════════
+
+export function isSubtitleFile(name: string): boolean {
+    return Config.SUBTITLE_MIME_MAP.has(extname(name).toLowerCase());
+}
+
+/**
+ * Guesses the language from tags like "Movie.eng.forced.srt", "Subs/2_English.srt" or "pt-BR".
+ * Two-letter codes only count near the end of the name, where release tools put the tag,
+ * so titles like "It.2017.srt" are not read as Italian.
+ */
+export function inferSubtitleLanguage(fileName: string): string {
+    const base = fileName.slice(0, fileName.length - extname(fileName).length);
+    if (BRAZILIAN_RX.test(base)) return "pob";
+
+    const tokens = base.toLowerCase().split(TOKEN_SPLIT_RX).filter(Boolean);
+    for (let i = tokens.length - 1; i >= 0; i--) {
+        const token = tokens[i];
+        if (token.length === 2 && i < tokens.length - 2) continue;
+
+        const code = LANGUAGE_LOOKUP.get(token);
+        if (code) return code;
+    }
+    return "und";
+}
+
+/**
+ * The job root is the first three segments of a WebDAV view path: content/<category>/<job>.
+ * STRM view paths are URLs and have no browsable job folder.
+ */
+function jobRootFromViewPath(viewPath: string): string | null {
+    const parts = viewPath.replace(/^\/+/, "").split("/");
+    if (parts[0] !== "content" || parts.length < 4) return null;
+    return parts.slice(0, 3).join("/");
+}
+
+function belongsToOtherEpisode(name: string, episodeRx: RegExp | null): boolean {
+    return !!episodeRx && ANY_EPISODE_RX.test(name) && !episodeRx.test(name);
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Lookup
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * Streams for this video that already have a view path, found through the cached search results
+ * of the install's indexer subset.
+ */
+async function getReadyStreams(videoId: string, indexers?: string[]): Promise<{ hash: string; viewPath: string }[]> {
+    const searchKey = getSearchCacheKey(parseRequestedEpisode("series", videoId) ?? { imdbid: videoId }, indexers);
+
+    const results = parseRedisJson<SearchResult[]>(await redis.call("JSON.GET", searchKey, "$"));
+    if (!results?.length) return [];
+
+    const hashes = results.map((r) => getStreamHash(r, videoId));
+    const pipeline = redis.pipeline();
+    for (const hash of hashes) pipeline.call("JSON.GET", `streams:${hash}`, "$.viewPath");
+    const viewPaths = await pipeline.exec();
+
+    const ready: { hash: string; viewPath: string }[] = [];
+    for (let i = 0; i < hashes.length; i++) {
+        const viewPath = parseRedisJsonScalar(viewPaths?.[i]?.[1]);
+        if (viewPath) ready.push({ hash: hashes[i], viewPath });
+    }
+    return ready;
+}
+
+async function findBundledSubtitles(jobRoot: string, episode?: EpisodeInfo): Promise<BundledSubtitle[]> {
+    const client = getWebdavClient();
+    const episodeRx = getEpisodeRegex(episode);
+    const found: BundledSubtitle[] = [];
+
+    const queue: Array<{ rel: string; depth: number }> = [{ rel: "", depth: 0 }];
+    for (let i = 0; i < queue.length && i < MAX_DIRECTORIES; i++) {
+        const { rel, depth } = queue[i];
+        const entries = await client.getDirectoryContents(normalizeNzbdavPath(`/${jobRoot}/${rel}`));
+
+        for (const entry of entries) {
+            const entryRel = rel ? `${rel}/${entry.name}` : entry.name;
+
+            if (entry.isDirectory) {
+                if (depth < Config.NZBDAV_MAX_DIRECTORY_DEPTH) queue.push({ rel: entryRel, depth: depth + 1 });
+                continue;
+            }
+
+            if (!isSubtitleFile(entry.name) || belongsToOtherEpisode(entry.name, episodeRx)) continue;
+            found.push({ relPath: entryRel, lang: inferSubtitleLanguage(entryRel) });
+        }
+    }
+
+    return found;
+}
+
+/**
+ * Lists subtitle files bundled with every ready release of a video.
+ * `fileBaseUrl` is the addon URL prefix that serves `/<hash>/<relPath>`.
+ */
+export async function listBundledSubtitles(videoId: string, fileBaseUrl: string, indexers?: string[]): Promise<StremioSubtitle[]> {
+    const episode = parseRequestedEpisode("series", videoId);
+    const subtitles: StremioSubtitle[] = [];
+    const seenRoots = new Set<string>();
+
+    for (const { hash, viewPath } of await getReadyStreams(videoId, indexers)) {
+        const jobRoot = jobRootFromViewPath(viewPath);
+        if (!jobRoot || seenRoots.has(jobRoot)) continue;
+        seenRoots.add(jobRoot);
+
+        try {
+            for (const sub of await findBundledSubtitles(jobRoot, episode)) {
+                subtitles.push({
+                    id: `${hash.slice(0, 8)}:${sub.relPath}`,
+                    url: `${fileBaseUrl}/${hash}/${encodeURIComponent(sub.relPath)}`,
+                    lang: sub.lang,
+                });
+            }
+        } catch (err) {
+            console.error(`[Subtitles] Failed to list ${jobRoot}:`, err instanceof Error ? err.message : err);
+        }
+    }
+
+    return subtitles;
+}
+
+/**
+ * Maps a subtitle request back to a WebDAV path, refusing anything outside the job folder
+ * of a stream we actually built.
+ */
+export async function resolveSubtitlePath(hash: string, relPath: string): Promise<string | null> {
+    if (!isSubtitleFile(relPath)) return null;
+
+    const segments = relPath.split("/");
+    if (segments.some((s) => !s || s === "." || s === "..")) return null;
+
+    const viewPath = parseRedisJsonScalar(await redis.call("JSON.GET", `streams:${hash}`, "$.viewPath"));
+    const jobRoot = viewPath ? jobRootFromViewPath(viewPath) : null;
+    return jobRoot ? `${jobRoot}/${relPath}` : null;
+}
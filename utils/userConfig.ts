@@ -0,0 +1,153 @@
+import { decodeBase64Url, encodeBase64Url } from "@std/encoding/base64url";
+import { Config } from "../env.ts";
+import { compileFilterRule, type CompiledRule } from "./filterRules.ts";
+import { getResolutionRank } from "./streamHelpers.ts";
+
+// ═══════════════════════════════════════════════════════════════════
+// Types
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * Per-install preferences carried in the addon URL.
+ * Every field is optional, an empty config behaves like the shared secret install.
+ */
+export interface UserConfig {
+    maxResolution?: string;     // e.g. "1080P" - anything ranked higher is dropped
+    languages?: string[];       // release must carry at least one of these
+    maxPerResolution?: number;  // overrides the ranking profile cap
+    indexers?: string[];        // indexer names, case-insensitive
+}
+
+/**
+ * A decoded config token. The API key id is signed in, so the install gets that key's
+ * quotas and stops working when the key is revoked. 0 binds it to the master secret.
+ */
+export interface SignedUserConfig {
+    keyId: number;
+    config: UserConfig;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Signing
+// ═══════════════════════════════════════════════════════════════════
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// Keyed by secret so a rotated ADDON_SHARED_SECRET takes effect without a restart
+let cachedKey: { secret: string; key: Promise<CryptoKey> } | null = null;
+
+function getSigningKey(): Promise<CryptoKey> {
+    const secret = Config.ADDON_SHARED_SECRET;
+    if (cachedKey?.secret !== secret) {
+        cachedKey = {
+            secret,
+            key: crypto.subtle.importKey(
+                "raw",
+                encoder.encode(secret),
+                { name: "HMAC", hash: "SHA-256" },
+                false,
+                ["sign", "verify"],
+            ),
+        };
+    }
+    return cachedKey.key;
+}
+
+function normalizeUserConfig(raw: Record<string, unknown>): UserConfig {
+    const cfg: UserConfig = {};
+
+    if (typeof raw.maxResolution === "string" && raw.maxResolution.trim()) {
+        cfg.maxResolution = raw.maxResolution.trim().toUpperCase();
+    }
+    if (Array.isArray(raw.languages) && raw.languages.length) {
+        cfg.languages = raw.languages.map(String).filter(Boolean);
+    }
+    const maxPer = Number(raw.maxPerResolution);
+    if (Number.isFinite(maxPer) && maxPer > 0) {
+        cfg.maxPerResolution = Math.floor(maxPer);
+    }
+    if (Array.isArray(raw.indexers) && raw.indexers.length) {
+        cfg.indexers = raw.indexers.map(String).filter(Boolean);
+    }
+
+    return cfg;
+}
+
+/**
+ * Encodes a config bound to API key `keyId` as `<payload>.<signature>`, both base64url.
+ * The payload is readable by anyone holding the URL, it is signed, not encrypted.
+ */
+export async function encodeUserConfig(cfg: UserConfig, keyId: number): Promise<string> {
+    const body = { ...normalizeUserConfig({ ...cfg }), key: keyId };
+    const payload = encodeBase64Url(encoder.encode(JSON.stringify(body)));
+    const signature = await crypto.subtle.sign("HMAC", await getSigningKey(), encoder.encode(payload));
+    return `${payload}.${encodeBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Verifies and decodes a config token. Returns null for anything we did not sign,
+ * including tokens minted before configs were bound to a key.
+ */
+export async function decodeUserConfig(token: string): Promise<SignedUserConfig | null> {
+    const dot = token.indexOf(".");
+    if (dot <= 0 || dot === token.length - 1) return null;
+
+    const payload = token.slice(0, dot);
+
+    try {
+        const valid = await crypto.subtle.verify(
+            "HMAC",
+            await getSigningKey(),
+            decodeBase64Url(token.slice(dot + 1)),
+            encoder.encode(payload),
+        );
+        if (!valid) return null;
+
+        const raw = JSON.parse(decoder.decode(decodeBase64Url(payload)));
+        if (!raw || typeof raw !== "object" || !Number.isInteger(raw.key) || raw.key < 0) return null;
+        return { keyId: raw.key, config: normalizeUserConfig(raw) };
+    } catch {
+        return null;
+    }
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Application
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * Turns a config into filter predicates so drops show up in X-Filter-Dropped
+ * alongside the global rules.
+ */
+export function compileUserConfigRules(cfg: UserConfig): CompiledRule[] {
+    const rules: CompiledRule[] = [];
+
+    if (cfg.indexers?.length) {
+        const allowed = new Set(cfg.indexers.map((i) => i.toLowerCase()));
+        rules.push({
+            name: "config:indexers",
+            rejects: (r) => !allowed.has(String(r.indexer ?? "").toLowerCase()),
+        });
+    }
+
+    if (cfg.maxResolution) {
+        const cap = getResolutionRank(cfg.maxResolution);
+        if (cap > 0) {
+            rules.push({
+                name: "config:maxResolution",
+                rejects: (r) => getResolutionRank(r.resolution) > cap,
+            });
+        }
+    }
+
+    if (cfg.languages?.length) {
+        rules.push(compileFilterRule({
+            name: "config:languages",
+            type: "require_language",
+            value: cfg.languages.join(","),
+        }));
+    }
+
+    return rules;
+}
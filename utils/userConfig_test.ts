@@ -0,0 +1,87 @@
+import { assertEquals, assertNotEquals } from "@std/assert";
+import { decodeBase64Url, encodeBase64Url } from "@std/encoding/base64url";
+import { decodeUserConfig, encodeUserConfig } from "./userConfig.ts";
+
+const SECRET = "test-secret";
+Deno.env.set("ADDON_SHARED_SECRET", SECRET);
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/** Signs an arbitrary payload the way encodeUserConfig does, to mint tokens it never would. */
+async function sign(body: unknown, secret = SECRET): Promise<string> {
+    const key = await crypto.subtle.importKey("raw", encoder.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
+    const payload = encodeBase64Url(encoder.encode(JSON.stringify(body)));
+    const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(payload));
+    return `${payload}.${encodeBase64Url(new Uint8Array(signature))}`;
+}
+
+function readPayload(token: string): Record<string, unknown> {
+    return JSON.parse(decoder.decode(decodeBase64Url(token.split(".")[0])));
+}
+
+function withPayload(token: string, body: unknown): string {
+    return `${encodeBase64Url(encoder.encode(JSON.stringify(body)))}.${token.split(".")[1]}`;
+}
+
+// --- Round trip ---
+
+Deno.test("encodeUserConfig round-trips a normalized config bound to its key", async () => {
+    const token = await encodeUserConfig({
+        maxResolution: " 1080p ",
+        languages: ["English", ""],
+        maxPerResolution: 2.7,
+        indexers: ["NZBgeek"],
+    }, 7);
+
+    assertEquals(await decodeUserConfig(token), {
+        keyId: 7,
+        config: { maxResolution: "1080P", languages: ["English"], maxPerResolution: 2, indexers: ["NZBgeek"] },
+    });
+    assertEquals(await decodeUserConfig(await encodeUserConfig({}, 0)), { keyId: 0, config: {} });
+});
+
+// --- Rejection ---
+
+Deno.test("decodeUserConfig rejects a tampered payload or forged signature", async () => {
+    const token = await encodeUserConfig({ maxResolution: "720P" }, 7);
+
+    const tampered = withPayload(token, { ...readPayload(token), maxResolution: "2160P" });
+    assertEquals(await decodeUserConfig(tampered), null);
+
+    const forged = await sign(readPayload(token), "guessed-secret");
+    assertEquals(await decodeUserConfig(forged), null);
+
+    const [payload, signature] = token.split(".");
+    assertEquals(await decodeUserConfig(`${payload}.${signature.slice(0, -4)}AAAA`), null);
+    assertEquals(await decodeUserConfig(payload), null);
+    assertEquals(await decodeUserConfig(`${payload}.`), null);
+    assertEquals(await decodeUserConfig("not a token"), null);
+});
+
+Deno.test("decodeUserConfig rejects a swapped, missing or invalid key id", async () => {
+    const token = await encodeUserConfig({}, 7);
+
+    // Claiming the master key with another key's signature
+    assertEquals(await decodeUserConfig(withPayload(token, { key: 0 })), null);
+
+    // Signed, but minted before configs were bound to a key, or with a key no row can have
+    assertEquals(await decodeUserConfig(await sign({ maxResolution: "1080P" })), null);
+    assertEquals(await decodeUserConfig(await sign({ key: -1 })), null);
+    assertEquals(await decodeUserConfig(await sign({ key: "7" })), null);
+    assertEquals(await decodeUserConfig(await sign({ key: 1.5 })), null);
+});
+
+Deno.test("rotating the shared secret invalidates existing tokens", async () => {
+    const token = await encodeUserConfig({ indexers: ["geek"] }, 3);
+    try {
+        Deno.env.set("ADDON_SHARED_SECRET", "rotated");
+        assertEquals(await decodeUserConfig(token), null);
+
+        const fresh = await encodeUserConfig({ indexers: ["geek"] }, 3);
+        assertNotEquals(fresh, token);
+        assertEquals((await decodeUserConfig(fresh))?.keyId, 3);
+    } finally {
+        Deno.env.set("ADDON_SHARED_SECRET", SECRET);
+    }
+});
@@ -0,0 +1,159 @@
+import { Config } from "../env.ts";
+import { addWatchProgress, recordWatchStart, type WatchEntry } from "./sqlite.ts";
+import { parseRequestedEpisode } from "./parseRequestedEpisode.ts";
+import { ALTERNATE_STREAM_HEADER, getStreamMeta } from "../lib/nzbDav/nzbDav.ts";
+import type { ApiKeyPrincipal } from "./apiKeys.ts";
+import type { StreamCache } from "../lib/nzbDav/types.ts";
+
+// ═══════════════════════════════════════════════════════════════════
+// Types & Constants
+// ═══════════════════════════════════════════════════════════════════
+
+export interface WatchHistoryItem {
+    videoId: string;
+    imdbId: string;
+    type: "movie" | "series";
+    season: number | null;
+    episode: number | null;
+    title: string;
+    release: string;
+    bytesServed: number;
+    progress: number | null; // 0-100, null until the file size is known
+    startedAt: number;
+    lastPlayedAt: number;
+}
+
+// Shorter reads are players probing the file index or seeking, they do not move the resume point
+const MIN_PROGRESS_BYTES = 8 * 1024 * 1024;
+
+// ═══════════════════════════════════════════════════════════════════
+// Recording
+// ═══════════════════════════════════════════════════════════════════
+
+async function startWatch(apiKeyId: number, streamKey: string): Promise<boolean> {
+    const meta = await getStreamMeta(streamKey);
+    if (!meta?.rawImdbId) return false;
+
+    const type = meta.type ?? "movie";
+    const info = parseRequestedEpisode(type, meta.rawImdbId);
+    const release: StreamCache = {
+        downloadUrl: meta.downloadUrl,
+        title: meta.title,
+        name: meta.name,
+        size: meta.size,
+        guid: meta.guid,
+        indexer: meta.indexer,
+        type,
+        fileName: meta.fileName,
+        rawImdbId: meta.rawImdbId,
+        seasonPack: meta.seasonPack,
+    };
+
+    recordWatchStart({
+        api_key_id: apiKeyId,
+        stream_key: streamKey,
+        video_id: meta.rawImdbId,
+        imdb_id: info?.imdbid ?? meta.rawImdbId.split(":")[0],
+        type,
+        season: info?.season ?? null,
+        episode: info?.episode ?? null,
+        title: meta.name ?? meta.title,
+        release_title: meta.title,
+        release_json: JSON.stringify(release),
+    });
+    return true;
+}
+
+/** Offset the response starts at and the full file size, from Content-Range or Content-Length. */
+function readRange(res: Response): { start: number; total: number | null } {
+    const range = res.headers.get("Content-Range")?.match(/bytes (\d+)-\d+\/(\d+|\*)/);
+    if (range) return { start: Number(range[1]), total: range[2] === "*" ? null : Number(range[2]) };
+
+    const length = Number(res.headers.get("Content-Length"));
+    return { start: 0, total: length > 0 ? length : null };
+}
+
+/**
+ * Records a successful play for the key's watch history and counts the bytes the viewer
+ * actually pulled. The body is passed through untouched; progress is written when the
+ * response ends or the player closes it.
+ */
+export function trackPlay(principal: ApiKeyPrincipal, streamKey: string, req: Request, res: Response): Response {
+    if (!Config.WATCH_HISTORY || req.method !== "GET" || !res.body) return res;
+    if ((res.status !== 200 && res.status !== 206) || res.headers.has("X-NZBDav-Failure")) return res;
+
+    const playedKey = res.headers.get(ALTERNATE_STREAM_HEADER) ?? streamKey;
+    const started = startWatch(principal.id, playedKey).catch((err) => {
+        console.warn("[History] Failed to record play:", err instanceof Error ? err.message : err);
+        return false;
+    });
+
+    const { start, total } = readRange(res);
+    const reader = res.body.getReader();
+    let bytes = 0;
+    let finished = false;
+
+    const finish = () => {
+        if (finished) return;
+        finished = true;
+        started.then((ok) => {
+            if (ok) addWatchProgress(principal.id, playedKey, bytes, bytes >= MIN_PROGRESS_BYTES ? start + bytes : null, total);
+        }).catch((err) => console.warn("[History] Failed to record progress:", err instanceof Error ? err.message : err));
+    };
+
+    const body = new ReadableStream<Uint8Array>({
+        async pull(controller) {
+            try {
+                const { done, value } = await reader.read();
+                if (done) {
+                    finish();
+                    controller.close();
+                    return;
+                }
+                bytes += value.byteLength;
+                controller.enqueue(value);
+            } catch (err) {
+                finish();
+                controller.error(err);
+            }
+        },
+        cancel(reason) {
+            finish();
+            return reader.cancel(reason);
+        },
+    });
+
+    return new Response(body, { status: res.status, statusText: res.statusText, headers: res.headers });
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Reading
+// ═══════════════════════════════════════════════════════════════════
+
+export function watchProgress(entry: WatchEntry): number | null {
+    if (!entry.total_bytes) return null;
+    return Math.min(100, Math.round((entry.position_bytes / entry.total_bytes) * 100));
+}
+
+/** The line prepended to a watched release in stream lists. */
+export function formatWatchedLine(entry: WatchEntry): string {
+    const progress = watchProgress(entry);
+    return `👁️ Watched${progress ? ` ${progress}%` : ""}`;
+}
+
+/** History entry as served to clients, without the stored download URL. */
+export function toWatchHistoryItem(entry: WatchEntry): WatchHistoryItem {
+    return {
+        videoId: entry.video_id,
+        imdbId: entry.imdb_id,
+        type: entry.type,
+        season: entry.season,
+        episode: entry.episode,
+        title: entry.title,
+        release: entry.release_title,
+        bytesServed: entry.bytes_served,
+        progress: watchProgress(entry),
+        startedAt: entry.started_at,
+        lastPlayedAt: entry.last_played_at,
+    };
+}